@@ -1,13 +1,22 @@
 import { CamundaRestClient } from '@camunda8/sdk'
 
 import { CamundaProcessTestContext } from '../runtime/CamundaProcessTestContext'
+import { Job, JobFilter } from '../types'
+
+// Variable values longer than this are truncated in the process state snapshot
+const MAX_DIAGNOSTIC_VALUE_LENGTH = 200
 
 /**
  * Base class for all assertion types.
  * Provides common functionality like waiting with timeout.
  */
 export abstract class BaseAssert {
+	/** Default window that negative assertions hold their condition for */
+	public static readonly DEFAULT_STABLE_DURATION = 1000
+
 	protected client: CamundaRestClient
+	private stableDuration?: number
+
 	constructor(
 		protected context: CamundaProcessTestContext,
 		protected timeout: number,
@@ -16,14 +25,27 @@ export abstract class BaseAssert {
 		this.client = context.getClient().getCamundaRestClient()
 	}
 
+	/**
+	 * Switches to stable-state mode: subsequent assertions must not only
+	 * be met, but stay met for the given duration, and negative assertions
+	 * hold their condition for this duration instead of the default window.
+	 */
+	remainsFor(duration: number): this {
+		this.stableDuration = duration
+		return this
+	}
+
 	/**
 	 * Waits until a condition is met or timeout is reached.
+	 * In stable-state mode, the condition must then hold for the stable duration.
 	 * Uses exponential backoff to reduce API pressure.
 	 * Accounts for operation duration to prevent overlapping calls.
+	 * A description function is evaluated on timeout, so it can report
+	 * details of the last check.
 	 */
 	protected async waitUntil(
 		condition: () => Promise<boolean> | boolean,
-		description: string
+		description: string | (() => string)
 	): Promise<void> {
 		const startTime = Date.now()
 		let currentInterval = this.interval
@@ -32,10 +54,9 @@ export abstract class BaseAssert {
 		while (Date.now() - startTime < this.timeout) {
 			const operationStartTime = Date.now()
 
+			let conditionMet = false
 			try {
-				if (await condition()) {
-					return
-				}
+				conditionMet = await condition()
 				// Reset error count on successful condition check
 				consecutiveErrors = 0
 				currentInterval = this.interval
@@ -48,6 +69,13 @@ export abstract class BaseAssert {
 				)
 			}
 
+			if (conditionMet) {
+				if (this.stableDuration !== undefined) {
+					await this.holdsFor(condition, description)
+				}
+				return
+			}
+
 			// Calculate how long the operation took
 			const operationDuration = Date.now() - operationStartTime
 
@@ -61,11 +89,186 @@ export abstract class BaseAssert {
 			// If operation took longer than interval, we proceed immediately to next check
 		}
 
+		const expectation =
+			typeof description === 'function' ? description() : description
+		const diagnostics = await this.describeProcessState()
 		throw new Error(
-			`Timeout waiting for ${description} after ${this.timeout}ms`
+			`Timeout waiting for ${expectation} after ${this.timeout}ms${diagnostics}`
 		)
 	}
 
+	/**
+	 * Checks that a condition holds during the whole stable window
+	 * (remainsFor() or DEFAULT_STABLE_DURATION) and fails at the first
+	 * violation, without waiting for the assertion timeout. Used for
+	 * negative assertions, which would otherwise pass instantly.
+	 * Like in waitUntil(), errors thrown by the condition are retried; the
+	 * assertion fails with the last error if checks still fail at the end
+	 * of the window.
+	 */
+	protected async holdsFor(
+		condition: () => Promise<boolean> | boolean,
+		description: string | (() => string)
+	): Promise<void> {
+		const duration = this.stableDuration ?? BaseAssert.DEFAULT_STABLE_DURATION
+		const startTime = Date.now()
+		const describeExpectation = () =>
+			typeof description === 'function' ? description() : description
+
+		for (;;) {
+			const elapsed = Date.now() - startTime
+			let holds: boolean | undefined
+			let checkError: unknown
+			try {
+				holds = await condition()
+			} catch (error) {
+				checkError = error
+			}
+			if (holds === false) {
+				const diagnostics = await this.describeProcessState()
+				throw new Error(
+					`Expected ${describeExpectation()} for ${duration}ms, but it was violated after ${elapsed}ms${diagnostics}`
+				)
+			}
+			if (elapsed >= duration) {
+				if (holds === undefined) {
+					const message =
+						checkError instanceof Error
+							? checkError.message
+							: String(checkError)
+					const diagnostics = await this.describeProcessState()
+					throw new Error(
+						`Could not check ${describeExpectation()} for ${duration}ms: ${message}${diagnostics}`
+					)
+				}
+				return
+			}
+			await this.sleep(Math.min(this.interval, duration - elapsed))
+		}
+	}
+
+	/**
+	 * Returns the key of the process instance the assertion refers to, if known.
+	 * Subclasses override this so that timeout errors include a snapshot of
+	 * the process state.
+	 */
+	protected getDiagnosticProcessInstanceKey(): string | undefined {
+		return undefined
+	}
+
+	/**
+	 * Builds a snapshot of the process instance state for failure messages.
+	 * Each section is fetched independently, so a failing query only hides
+	 * its own part of the snapshot. Never throws.
+	 */
+	protected async describeProcessState(): Promise<string> {
+		const processInstanceKey = this.getDiagnosticProcessInstanceKey()
+		if (!processInstanceKey) {
+			return ''
+		}
+
+		const sections = await Promise.all([
+			this.describeSection('State', async () => {
+				const result = await this.client.searchProcessInstances({
+					filter: { processInstanceKey },
+					sort: [{ field: 'processInstanceKey', order: 'ASC' }],
+					page: { from: 0, limit: 1 },
+				})
+				const instance = result.items[0]
+				return instance
+					? [`${instance.state} (${instance.processDefinitionId})`]
+					: ['not found']
+			}),
+			this.describeSection('Active elements', () =>
+				this.describeElements(processInstanceKey, 'ACTIVE')
+			),
+			this.describeSection('Completed elements', () =>
+				this.describeElements(processInstanceKey, 'COMPLETED')
+			),
+			this.describeSection('Variables', async () => {
+				const result = await this.client.searchVariables({
+					filter: { processInstanceKey },
+				})
+				return result.items.map(
+					(variable) =>
+						`${variable.name} = ${truncate(variable.value, MAX_DIAGNOSTIC_VALUE_LENGTH)}`
+				)
+			}),
+			this.describeSection('Open incidents', async () => {
+				const result = await this.client.searchIncidents({
+					filter: { processInstanceKey, state: 'ACTIVE' },
+					sort: [{ field: 'incidentKey', order: 'ASC' }],
+					page: { from: 0, limit: 100 },
+				})
+				return result.items.map(
+					(incident) =>
+						`[${incident.errorType}] ${incident.elementId}: ${incident.errorMessage}`
+				)
+			}),
+			this.describeSection('Active jobs', async () => {
+				const jobs = await this.searchJobs({
+					processInstanceKey,
+					state: 'CREATED',
+				})
+				return jobs.map(
+					(job) => `${job.type} (${job.elementId}), retries: ${job.retries}`
+				)
+			}),
+		])
+
+		return `\n\nProcess instance ${processInstanceKey}:\n${sections.join('\n')}`
+	}
+
+	/**
+	 * Searches jobs via the REST API, newest first.
+	 */
+	protected async searchJobs(filter: JobFilter, limit = 100): Promise<Job[]> {
+		const result = await this.client.callApiEndpoint<
+			Record<string, unknown>,
+			{ items: Job[] }
+		>({
+			method: 'POST',
+			urlPath: 'jobs/search',
+			body: {
+				filter,
+				sort: [{ field: 'jobKey', order: 'DESC' }],
+				page: { from: 0, limit },
+			},
+		})
+		return result.items
+	}
+
+	private async describeElements(
+		processInstanceKey: string,
+		state: 'ACTIVE' | 'COMPLETED'
+	): Promise<string[]> {
+		const result = await this.client.searchElementInstances({
+			filter: { processInstanceKey, state },
+			sort: [{ field: 'elementInstanceKey', order: 'ASC' }],
+			page: { from: 0, limit: 1000 },
+		})
+		return [result.items.map((element) => element.elementId).join(', ')]
+	}
+
+	private async describeSection(
+		title: string,
+		describe: () => Promise<string[]>
+	): Promise<string> {
+		try {
+			const lines = (await describe()).filter((line) => line.length > 0)
+			if (lines.length === 0) {
+				return `  ${title}: none`
+			}
+			if (lines.length === 1) {
+				return `  ${title}: ${lines[0]}`
+			}
+			return `  ${title}:\n${lines.map((line) => `    - ${line}`).join('\n')}`
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error)
+			return `  ${title}: (unavailable: ${message})`
+		}
+	}
+
 	/**
 	 * Sleeps for the specified number of milliseconds.
 	 */
@@ -80,3 +283,7 @@ export abstract class BaseAssert {
 		return this.context
 	}
 }
+
+function truncate(value: string, maxLength: number): string {
+	return value.length > maxLength ? `${value.slice(0, maxLength)}...` : value
+}
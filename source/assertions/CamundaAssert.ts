@@ -4,14 +4,19 @@ import {
 	ProcessInstanceResult,
 	ProcessInstanceSelector,
 	UserTaskSelector,
+	DecisionEvaluation,
 	DecisionSelector,
 	ElementSelector,
+	IncidentSelector,
+	JobSelector,
 } from '../types'
 
 import { ProcessInstanceAssert } from './ProcessInstanceAssert'
 import { UserTaskAssert } from './UserTaskAssert'
 import { DecisionInstanceAssert } from './DecisionInstanceAssert'
-import { ElementSelectors } from './selectors'
+import { IncidentAssert } from './IncidentAssert'
+import { JobAssert } from './JobAssert'
+import { DecisionSelectors, ElementSelectors } from './selectors'
 
 /**
  * Entry point for all Camunda process assertions.
@@ -129,14 +134,39 @@ export class CamundaAssert {
 	}
 
 	/**
-	 * Asserts on a decision instance using a selector.
+	 * Asserts on a job using a selector.
+	 */
+	static assertThatJob(selector: JobSelector): JobAssert {
+		return new JobAssert(
+			CamundaAssert.getContext(),
+			selector,
+			CamundaAssert.assertionTimeout,
+			CamundaAssert.assertionInterval
+		)
+	}
+
+	/**
+	 * Asserts on an incident using a selector.
+	 */
+	static assertThatIncident(selector: IncidentSelector): IncidentAssert {
+		return new IncidentAssert(
+			CamundaAssert.getContext(),
+			selector,
+			CamundaAssert.assertionTimeout,
+			CamundaAssert.assertionInterval
+		)
+	}
+
+	/**
+	 * Asserts on a decision instance using a selector, or on the decision
+	 * evaluated by context.evaluateDecision().
 	 */
 	static assertThatDecision(
-		selector: DecisionSelector
+		selector: DecisionSelector | DecisionEvaluation
 	): DecisionInstanceAssert {
 		return new DecisionInstanceAssert(
 			CamundaAssert.getContext(),
-			selector,
+			'type' in selector ? selector : DecisionSelectors.byEvaluation(selector),
 			CamundaAssert.assertionTimeout,
 			CamundaAssert.assertionInterval
 		)
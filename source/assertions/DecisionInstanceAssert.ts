@@ -3,6 +3,8 @@ import { CamundaProcessTestContext } from '../runtime/CamundaProcessTestContext'
 import { DecisionSelector } from '../types'
 
 import { BaseAssert } from './BaseAssert'
+import { DecisionOutputs, MatchedRule } from './DecisionOutputs'
+import { VariableMatchers } from './VariableMatchers'
 
 // Decision result and input types - generic to handle various decision output types
 type DecisionResult = unknown
@@ -38,6 +40,15 @@ interface GetDecisionInstanceResponse {
 		inputName: string
 		inputValue: string
 	}>
+	matchedRules?: Array<{
+		ruleId: string
+		ruleIndex: number
+		evaluatedOutputs: Array<{
+			outputId: string
+			outputName: string
+			outputValue: string
+		}>
+	}>
 	processInstanceKey: string
 	processDefinitionKey: string
 	evaluationDate: string
@@ -55,6 +66,7 @@ interface TransformedDecisionInstance {
 	state: string
 	result: DecisionResult
 	input: DecisionInput
+	matchedRules?: MatchedRule[]
 	processInstanceKey: string
 	processDefinitionKey: string
 	evaluationDate: string
@@ -67,6 +79,8 @@ interface TransformedDecisionInstance {
  * Provides fluent API for verifying decision evaluation results.
  */
 export class DecisionInstanceAssert extends BaseAssert {
+	private lastSeenProcessInstanceKey?: string
+
 	constructor(
 		context: CamundaProcessTestContext,
 		private selector: DecisionSelector,
@@ -116,10 +130,9 @@ export class DecisionInstanceAssert extends BaseAssert {
 		await this.waitUntil(
 			async () => {
 				const decision = await this.getDecisionInstance()
-				// eslint-disable-next-line @typescript-eslint/no-explicit-any
-				return this.deepEqual(decision?.result, expectedResult)
+				return VariableMatchers.matches(decision?.result, expectedResult)
 			},
-			`Decision to have result: ${JSON.stringify(expectedResult)}`
+			`Decision to have result: ${VariableMatchers.describe(expectedResult)}`
 		)
 		return this
 	}
@@ -133,16 +146,12 @@ export class DecisionInstanceAssert extends BaseAssert {
 		await this.waitUntil(
 			async () => {
 				const decision = await this.getDecisionInstance()
-				if (!decision?.result || typeof decision.result !== 'object') {
-					return false
-				}
-
-				return Object.entries(expectedPartialResult).every(([key, value]) => {
-					const result = decision.result as Record<string, unknown>
-					return result[key] === value
-				})
+				return VariableMatchers.matchesPartially(
+					decision?.result,
+					expectedPartialResult
+				)
 			},
-			`Decision result to contain: ${JSON.stringify(expectedPartialResult)}`
+			`Decision result to contain: ${VariableMatchers.describe(expectedPartialResult)}`
 		)
 		return this
 	}
@@ -209,7 +218,10 @@ export class DecisionInstanceAssert extends BaseAssert {
 
 					const transformedDecision =
 						this.transformDecisionInstanceResponse(decisionDetails)
-					return this.containsInput(transformedDecision?.input, expectedInput)
+					return VariableMatchers.matchesPartially(
+						transformedDecision?.input,
+						expectedInput
+					)
 				} catch (error) {
 					// If decision instance details are not available, return false to keep retrying
 					if (error instanceof Error && error.message.includes('404')) {
@@ -223,6 +235,107 @@ export class DecisionInstanceAssert extends BaseAssert {
 		return this
 	}
 
+	/**
+	 * Asserts exactly which rules of the decision table matched, by their
+	 * 1-based index in the table, e.g. hasMatchedRules(1, 4).
+	 */
+	async hasMatchedRules(...ruleIndexes: number[]): Promise<this> {
+		const expected = [...ruleIndexes].sort((a, b) => a - b)
+		let actual: number[] | undefined
+		await this.waitUntil(
+			async () => {
+				const rules = await this.getMatchedRules()
+				actual = rules?.map((rule) => rule.ruleIndex).sort((a, b) => a - b)
+				return VariableMatchers.matches(actual, expected)
+			},
+			() =>
+				`Decision to have matched rules ${expected.join(', ')} (matched: ${describeMatched(actual)})`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts exactly which rules of the decision table matched, by their
+	 * rule IDs as defined in the DMN.
+	 */
+	async hasMatchedRuleIds(...ruleIds: string[]): Promise<this> {
+		const expected = [...ruleIds].sort()
+		let actual: string[] | undefined
+		await this.waitUntil(
+			async () => {
+				const rules = await this.getMatchedRules()
+				actual = rules?.map((rule) => rule.ruleId).sort()
+				return VariableMatchers.matches(actual, expected)
+			},
+			() =>
+				`Decision to have matched rule IDs ${expected.join(', ')} (matched: ${describeMatched(actual)})`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the decision was evaluated without any rule matching.
+	 */
+	async hasNoMatchedRules(): Promise<this> {
+		let actual: number[] | undefined
+		await this.waitUntil(
+			async () => {
+				const rules = await this.getMatchedRules()
+				actual = rules?.map((rule) => rule.ruleIndex)
+				return actual !== undefined && actual.length === 0
+			},
+			() =>
+				`Decision to have no matched rules (matched: ${describeMatched(actual)})`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts the value of a decision table output, by output name or ID.
+	 * If several rules matched, the values of all matched rules are compared
+	 * as an array, in rule order. Values are compared like in hasResult().
+	 */
+	async hasOutput(output: string, expectedValue: any): Promise<this> {
+		let actual: unknown
+		await this.waitUntil(
+			async () => {
+				const rules = await this.getMatchedRules()
+				actual = rules && DecisionOutputs.getOutput(rules, output)
+				return (
+					actual !== undefined &&
+					VariableMatchers.matches(actual, expectedValue)
+				)
+			},
+			() =>
+				`Decision to have output ${output} = ${VariableMatchers.describe(expectedValue)} (was: ${actual !== undefined ? VariableMatchers.describe(actual) : 'not found'})`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that a required decision of the decision requirements graph
+	 * was evaluated successfully as part of the same evaluation.
+	 */
+	async hasRequiredDecisionEvaluated(decisionId: string): Promise<this> {
+		await this.getRequiredDecisionEvaluationKey(decisionId)
+		return this
+	}
+
+	/**
+	 * Asserts that a required decision was evaluated, see
+	 * hasRequiredDecisionEvaluated(), and returns assertions for it.
+	 */
+	async requiredDecision(decisionId: string): Promise<DecisionInstanceAssert> {
+		const evaluationKey =
+			await this.getRequiredDecisionEvaluationKey(decisionId)
+		return new DecisionInstanceAssert(
+			this.context,
+			{ type: 'key', value: evaluationKey, decisionId },
+			this.timeout,
+			this.interval
+		)
+	}
+
 	/**
 	 * Asserts that the decision belongs to a specific process instance.
 	 */
@@ -236,6 +349,82 @@ export class DecisionInstanceAssert extends BaseAssert {
 
 	// ======== Helper methods ========
 
+	protected getDiagnosticProcessInstanceKey(): string | undefined {
+		if (this.selector.type === 'processInstanceKey') {
+			return this.selector.value as string
+		}
+		return this.lastSeenProcessInstanceKey
+	}
+
+	/**
+	 * Waits until the required decision is found among the decisions evaluated
+	 * together with the selected one, and returns their evaluation key.
+	 */
+	private async getRequiredDecisionEvaluationKey(
+		decisionId: string
+	): Promise<string> {
+		let evaluationKey = ''
+		let evaluatedDecisionIds: string[] = []
+		await this.waitUntil(
+			async () => {
+				const decision = await this.getDecisionInstance()
+				if (!decision) {
+					return false
+				}
+				evaluationKey = decision.key
+				const evaluated = await this.searchEvaluation(evaluationKey)
+				evaluatedDecisionIds = evaluated.map(
+					(item) => item.decisionDefinitionId
+				)
+				return evaluated.some(
+					(item) =>
+						item.decisionDefinitionId === decisionId &&
+						item.decisionDefinitionId !== decision.decisionId &&
+						item.state === 'EVALUATED'
+				)
+			},
+			() =>
+				`Decision to have evaluated required decision ${decisionId} (evaluated: ${evaluatedDecisionIds.join(', ') || 'none'})`
+		)
+		return evaluationKey
+	}
+
+	/**
+	 * Gets the decision instances of one evaluation, in evaluation order.
+	 * Evaluating a decision with required decisions creates a decision
+	 * instance per decision, sharing the decisionInstanceKey; the
+	 * decisionInstanceId is the key suffixed with the evaluation index.
+	 */
+	private async searchEvaluation(
+		decisionInstanceKey: string,
+		decisionId?: string
+	): Promise<SearchDecisionInstanceItem[]> {
+		const searchResult = await this.client.searchDecisionInstances({
+			filter: {
+				decisionInstanceKey,
+				decisionDefinitionId: decisionId,
+			},
+			sort: [{ field: 'evaluationDate', order: 'ASC' }],
+			page: { from: 0, limit: 100 },
+		})
+		return [...(searchResult.items as SearchDecisionInstanceItem[])].sort(
+			(a, b) => evaluationIndex(a) - evaluationIndex(b)
+		)
+	}
+
+	/**
+	 * Gets the matched rules of the selected decision instance, in rule order.
+	 * Only the decision instance details contain matched rules, search results don't.
+	 */
+	private async getMatchedRules(): Promise<MatchedRule[] | undefined> {
+		const decisionKey = await this.getDecisionInstanceKey()
+		if (!decisionKey) {
+			return undefined
+		}
+		const details = await this.client.getDecisionInstance(decisionKey)
+		return this.transformDecisionInstanceResponse(details)?.matchedRules
+	}
+
 	/**
 	 * Gets the decision instance ID (primary key) for the current selector.
 	 * Used for operations that require the decision instance ID specifically.
@@ -254,21 +443,19 @@ export class DecisionInstanceAssert extends BaseAssert {
 				const keyValue = this.selector.value as string
 
 				// First try searching by decisionInstanceKey (foreign key)
-				let searchResult = await this.client.searchDecisionInstances({
-					filter: {
-						decisionInstanceKey: keyValue,
-					},
-					sort: [{ field: 'evaluationDate', order: 'DESC' }],
-					page: { from: 0, limit: 1 },
-				})
+				const evaluated = await this.searchEvaluation(
+					keyValue,
+					this.selector.decisionId
+				)
 
-				if (searchResult.items.length > 0) {
-					return searchResult.items[0].decisionInstanceId
+				if (evaluated.length > 0) {
+					// The root decision of a decision requirements graph is evaluated last
+					return evaluated[evaluated.length - 1].decisionInstanceId
 				}
 
 				// If not found, maybe they passed the decisionInstanceId directly
 				// Try searching without filter and find matching decisionInstanceId
-				searchResult = await this.client.searchDecisionInstances({
+				const searchResult = await this.client.searchDecisionInstances({
 					filter: {},
 					sort: [{ field: 'evaluationDate', order: 'DESC' }],
 					page: { from: 0, limit: 100 },
@@ -357,6 +544,14 @@ export class DecisionInstanceAssert extends BaseAssert {
 	 * @private
 	 */
 	private async getDecisionInstance(): Promise<TransformedDecisionInstance | null> {
+		const decision = await this.findDecisionInstance()
+		if (decision?.processInstanceKey) {
+			this.lastSeenProcessInstanceKey = decision.processInstanceKey
+		}
+		return decision
+	}
+
+	private async findDecisionInstance(): Promise<TransformedDecisionInstance | null> {
 		// Use CamundaRestClient to query actual decision instances from Camunda 8.8+ API
 		try {
 			if (this.selector.type === 'key') {
@@ -365,31 +560,28 @@ export class DecisionInstanceAssert extends BaseAssert {
 				const keyValue = this.selector.value as string
 
 				// First try searching by decisionInstanceKey (foreign key)
-				let searchResult = await this.client.searchDecisionInstances({
-					filter: {
-						decisionInstanceKey: keyValue,
-					},
-					sort: [{ field: 'evaluationDate', order: 'DESC' }],
-					page: { from: 0, limit: 1 },
-				})
+				const evaluated = await this.searchEvaluation(
+					keyValue,
+					this.selector.decisionId
+				)
 
-				if (searchResult.items.length > 0) {
+				if (evaluated.length > 0) {
+					// The root decision of a decision requirements graph is evaluated last
+					const root = evaluated[evaluated.length - 1]
 					// Found by foreign key, try to get full details using primary key
 					try {
 						const decisionInstance = await this.client.getDecisionInstance(
-							searchResult.items[0].decisionInstanceId
+							root.decisionInstanceId
 						)
 						return this.transformDecisionInstanceResponse(decisionInstance)
 					} catch (error) {
 						// Fallback to search result if getDecisionInstance fails
-						return this.transformDecisionInstanceSearchResult(
-							searchResult.items[0]
-						)
+						return this.transformDecisionInstanceSearchResult(root)
 					}
 				}
 
 				// If not found by foreign key, try searching all and match by decisionInstanceId
-				searchResult = await this.client.searchDecisionInstances({
+				const searchResult = await this.client.searchDecisionInstances({
 					filter: {},
 					sort: [{ field: 'evaluationDate', order: 'DESC' }],
 					page: { from: 0, limit: 100 },
@@ -546,6 +738,11 @@ export class DecisionInstanceAssert extends BaseAssert {
 			)
 		}
 
+		// Parse the output values of the matched rules, keyed by output name and ID
+		const matchedRules =
+			response.matchedRules &&
+			DecisionOutputs.parseMatchedRules(response.matchedRules)
+
 		return {
 			key: response.decisionInstanceKey,
 			decisionId: response.decisionDefinitionId,
@@ -555,6 +752,7 @@ export class DecisionInstanceAssert extends BaseAssert {
 			state: response.state,
 			result: parsedResult,
 			input: transformedInput,
+			matchedRules,
 			processInstanceKey: response.processInstanceKey,
 			processDefinitionKey: response.processDefinitionKey,
 			evaluationDate: response.evaluationDate,
@@ -618,47 +816,15 @@ export class DecisionInstanceAssert extends BaseAssert {
 			tenantId: item.tenantId,
 		}
 	}
+}
 
-	private deepEqual(obj1: unknown, obj2: unknown): boolean {
-		if (obj1 === obj2) return true
-
-		if (obj1 == null || obj2 == null) return false
-
-		if (typeof obj1 !== typeof obj2) return false
-
-		if (typeof obj1 !== 'object') return obj1 === obj2
-
-		const keys1 = Object.keys(obj1)
-		const keys2 = Object.keys(obj2)
-
-		if (keys1.length !== keys2.length) return false
-
-		return keys1.every((key) =>
-			this.deepEqual(
-				(obj1 as Record<string, unknown>)[key],
-				(obj2 as Record<string, unknown>)[key]
-			)
-		)
-	}
-
-	/**
-	 * Checks if the actual input contains all the key-value pairs from expected input.
-	 * This allows for partial matching where expected input can be a subset of actual input.
-	 */
-	private containsInput(actualInput: unknown, expectedInput: unknown): boolean {
-		if (!actualInput || !expectedInput) return false
-
-		if (typeof expectedInput !== 'object') {
-			return this.deepEqual(actualInput, expectedInput)
-		}
+function evaluationIndex(item: SearchDecisionInstanceItem): number {
+	return Number(item.decisionInstanceId.split('-').pop())
+}
 
-		// Check if all expected key-value pairs exist in actual input
-		return Object.entries(expectedInput).every(([key, value]) => {
-			const actualValue = (actualInput as Record<string, unknown>)[key]
-			if (typeof value === 'object' && value !== null) {
-				return this.containsInput(actualValue, value)
-			}
-			return this.deepEqual(actualValue, value)
-		})
+function describeMatched(matched: Array<string | number> | undefined): string {
+	if (matched === undefined) {
+		return 'unknown'
 	}
+	return matched.length > 0 ? matched.join(', ') : 'none'
 }
@@ -0,0 +1,79 @@
+/**
+ * A matched rule of a decision table, as returned by the REST API in
+ * decision instances and decision evaluations.
+ */
+export interface EvaluatedRule {
+	ruleId: string
+	ruleIndex: number | string
+	evaluatedOutputs?: Array<{
+		outputId: string
+		outputName: string
+		outputValue: string
+	}>
+}
+
+/**
+ * A rule of a decision table that matched, with its parsed output values,
+ * keyed by output name and ID.
+ */
+export interface MatchedRule {
+	ruleId: string
+	ruleIndex: number
+	outputs: Record<string, unknown>
+}
+
+/**
+ * Reads the matched rules and output values of evaluated decision tables.
+ * Used by DecisionInstanceAssert and DecisionTableFixture, so that both
+ * compare outputs the same way.
+ */
+export class DecisionOutputs {
+	/**
+	 * Parses the output values of the matched rules and sorts the rules by
+	 * their index in the table.
+	 */
+	static parseMatchedRules(rules: EvaluatedRule[]): MatchedRule[] {
+		return rules
+			.map((rule) => {
+				const outputs: Record<string, unknown> = {}
+				for (const output of rule.evaluatedOutputs ?? []) {
+					const value = DecisionOutputs.parseValue(output.outputValue)
+					outputs[output.outputId] = value
+					outputs[output.outputName] = value
+				}
+				return {
+					ruleId: rule.ruleId,
+					ruleIndex: Number(rule.ruleIndex),
+					outputs,
+				}
+			})
+			.sort((a, b) => a.ruleIndex - b.ruleIndex)
+	}
+
+	/**
+	 * Gets the value of an output, by output name or ID: the value of the
+	 * matched rule, or an array of the values in rule order if several rules
+	 * matched. Returns undefined if no matched rule has the output.
+	 */
+	static getOutput(rules: MatchedRule[], output: string): unknown {
+		const values = rules
+			.filter((rule) => output in rule.outputs)
+			.map((rule) => rule.outputs[output])
+		if (values.length === 0) {
+			return undefined
+		}
+		return values.length === 1 ? values[0] : values
+	}
+
+	/**
+	 * Parses a JSON-encoded value as returned by the REST API, keeping values
+	 * that are not valid JSON as strings.
+	 */
+	static parseValue(value: string): unknown {
+		try {
+			return JSON.parse(value)
+		} catch {
+			return value
+		}
+	}
+}
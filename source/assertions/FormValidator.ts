@@ -0,0 +1,172 @@
+import { VariableMatchers } from './VariableMatchers'
+
+/**
+ * A component of a Camunda form schema, as created by the form editor.
+ * Only the properties used for validation are declared.
+ */
+export interface FormComponent {
+	type: string
+	key?: string
+	path?: string
+	label?: string
+	validate?: { required?: boolean }
+	values?: Array<{ value: unknown }>
+	components?: FormComponent[]
+}
+
+/**
+ * A Camunda form schema (the content of a .form file).
+ */
+export interface FormSchema {
+	id?: string
+	components: FormComponent[]
+}
+
+// Expected value types of input components; other keyed components are not type-checked
+const FIELD_TYPES: Record<string, 'string' | 'number' | 'boolean' | 'array'> = {
+	textfield: 'string',
+	textarea: 'string',
+	datetime: 'string',
+	number: 'number',
+	checkbox: 'boolean',
+	checklist: 'array',
+	taglist: 'array',
+}
+
+/**
+ * Validates form data against a Camunda form schema, the way the form
+ * would constrain a user's input: required fields, value types, allowed
+ * options and no variables the form does not define.
+ */
+export class FormValidator {
+	/**
+	 * Returns a description of each problem found, or an empty array if the
+	 * variables are valid form data. The schema may be given as JSON string.
+	 */
+	static validate(
+		schema: FormSchema | string,
+		variables: Record<string, unknown>
+	): string[] {
+		const form: FormSchema =
+			typeof schema === 'string' ? JSON.parse(schema) : schema
+		const problems = validateComponents(form.components ?? [], variables, '')
+
+		const knownNames = new Set(
+			collectPaths(form.components ?? [], '').map(
+				(path) => VariableMatchers.parsePath(path)[0]
+			)
+		)
+		for (const name of Object.keys(variables)) {
+			if (!knownNames.has(name)) {
+				problems.push(`Variable '${name}' is not a field of the form`)
+			}
+		}
+		return problems
+	}
+}
+
+function validateComponents(
+	components: FormComponent[],
+	data: Record<string, unknown>,
+	prefix: string
+): string[] {
+	const problems: string[] = []
+	for (const component of components) {
+		if (component.type === 'dynamiclist' && component.path) {
+			problems.push(...validateList(component, data, prefix))
+		} else if (component.components) {
+			// Groups may nest their fields under a path
+			problems.push(
+				...validateComponents(
+					component.components,
+					data,
+					joinPath(prefix, component.path)
+				)
+			)
+		} else if (component.key) {
+			problems.push(...validateField(component, data, prefix))
+		}
+	}
+	return problems
+}
+
+function validateField(
+	component: FormComponent,
+	data: Record<string, unknown>,
+	prefix: string
+): string[] {
+	const path = joinPath(prefix, component.key)
+	const { found, value } = VariableMatchers.readPath(data, path)
+	if (!found || value === null || value === '') {
+		return component.validate?.required ? [`Field '${path}' is required`] : []
+	}
+
+	const expectedType = FIELD_TYPES[component.type]
+	const actualType = Array.isArray(value) ? 'array' : typeof value
+	if (expectedType && actualType !== expectedType) {
+		return [
+			`Field '${path}' must be of type ${expectedType}, got ${actualType}`,
+		]
+	}
+
+	const options = component.values?.map((option) => option.value)
+	if (options && options.length > 0) {
+		const selected = Array.isArray(value) ? value : [value]
+		const invalid = selected.filter((item) => !options.includes(item))
+		if (invalid.length > 0) {
+			return [
+				`Field '${path}' has values not offered by the form: ${JSON.stringify(invalid)}`,
+			]
+		}
+	}
+	return []
+}
+
+function validateList(
+	component: FormComponent,
+	data: Record<string, unknown>,
+	prefix: string
+): string[] {
+	const path = joinPath(prefix, component.path)
+	const { found, value } = VariableMatchers.readPath(data, path)
+	if (!found || value === null) {
+		return []
+	}
+	if (!Array.isArray(value)) {
+		return [`Field '${path}' must be of type array, got ${typeof value}`]
+	}
+	return value.flatMap((item, index) =>
+		typeof item === 'object' && item !== null
+			? validateComponents(
+					component.components ?? [],
+					item as Record<string, unknown>,
+					''
+				).map((problem) => `${problem} (in ${path}[${index}])`)
+			: [`Field '${path}[${index}]' must be of type object, got ${typeof item}`]
+	)
+}
+
+/**
+ * Collects the data paths of all fields, to tell which variables the form defines.
+ */
+function collectPaths(components: FormComponent[], prefix: string): string[] {
+	return components.flatMap((component) => {
+		if (component.type === 'dynamiclist' && component.path) {
+			return [joinPath(prefix, component.path)]
+		}
+		if (component.components) {
+			return collectPaths(
+				component.components,
+				joinPath(prefix, component.path)
+			)
+		}
+		return component.key ? [joinPath(prefix, component.key)] : []
+	})
+}
+
+function joinPath(prefix: string, path?: string): string {
+	if (!path) {
+		return prefix
+	}
+	return prefix ? `${prefix}.${path}` : path
+}
@@ -0,0 +1,189 @@
+import { CamundaRestApiTypes } from '@camunda8/sdk'
+
+import { CamundaProcessTestContext } from '../runtime/CamundaProcessTestContext'
+import { Incident, IncidentSelector } from '../types'
+
+import { BaseAssert } from './BaseAssert'
+
+type IncidentFilter = NonNullable<
+	CamundaRestApiTypes.SearchIncidentsRequest['filter']
+>
+
+/**
+ * Assertions for incidents.
+ * Provides fluent API for verifying why and where a process instance got stuck.
+ */
+export class IncidentAssert extends BaseAssert {
+	private lastSeenProcessInstanceKey?: string
+	private lastSeenIncident?: Incident
+
+	constructor(
+		context: CamundaProcessTestContext,
+		private selector: IncidentSelector,
+		timeout: number,
+		interval: number
+	) {
+		super(context, timeout, interval)
+	}
+
+	/**
+	 * Asserts that the incident has been created.
+	 */
+	async exists(): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const incident = await this.getIncident()
+				return incident !== null
+			},
+			`Incident ${describeIncidentSelector(this.selector)} to exist`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the incident has been resolved.
+	 */
+	async isResolved(): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const incident = await this.getIncident()
+				return incident?.state === 'RESOLVED'
+			},
+			`Incident ${describeIncidentSelector(this.selector)} to be resolved`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts the incident's error type, e.g. 'JOB_NO_RETRIES' or
+	 * 'UNHANDLED_ERROR_EVENT'.
+	 */
+	async hasErrorType(errorType: Incident['errorType']): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const incident = await this.getIncident()
+				return incident?.errorType === errorType
+			},
+			() =>
+				`Incident ${describeIncidentSelector(this.selector)} to have error type ${errorType}${this.describeLastSeen('errorType')}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts the BPMN element the incident was raised on.
+	 */
+	async hasElementId(elementId: string): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const incident = await this.getIncident()
+				return incident?.elementId === elementId
+			},
+			() =>
+				`Incident ${describeIncidentSelector(this.selector)} to be on element ${elementId}${this.describeLastSeen('elementId')}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts the job the incident was raised for.
+	 */
+	async hasJobKey(jobKey: string): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const incident = await this.getIncident()
+				return incident?.jobKey === jobKey
+			},
+			() =>
+				`Incident ${describeIncidentSelector(this.selector)} to have job key ${jobKey}${this.describeLastSeen('jobKey')}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts the incident's error message. A string must be contained in
+	 * the message, a regular expression must match it.
+	 */
+	async hasErrorMessage(expected: string | RegExp): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const incident = await this.getIncident()
+				if (!incident?.errorMessage) {
+					return false
+				}
+				return typeof expected === 'string'
+					? incident.errorMessage.includes(expected)
+					: expected.test(incident.errorMessage)
+			},
+			() =>
+				`Incident ${describeIncidentSelector(this.selector)} to have error message ${typeof expected === 'string' ? `containing: ${expected}` : `matching ${expected}`}${this.describeLastSeen('errorMessage')}`
+		)
+		return this
+	}
+
+	// ======== Helper methods ========
+
+	protected getDiagnosticProcessInstanceKey(): string | undefined {
+		if (this.selector.type === 'processInstanceKey') {
+			return this.selector.value as string
+		}
+		return this.selector.processInstanceKey ?? this.lastSeenProcessInstanceKey
+	}
+
+	/**
+	 * Gets the most recently created incident matching the selector.
+	 */
+	private async getIncident(): Promise<Incident | null> {
+		const filter: IncidentFilter = {}
+		if (this.selector.processInstanceKey) {
+			filter.processInstanceKey = this.selector.processInstanceKey
+		}
+		switch (this.selector.type) {
+			case 'key':
+				filter.incidentKey = this.selector.value as string
+				break
+			case 'elementId':
+				filter.elementId = this.selector.value as string
+				break
+			case 'jobKey':
+				filter.jobKey = this.selector.value as string
+				break
+			case 'processInstanceKey':
+				filter.processInstanceKey = this.selector.value as string
+				break
+		}
+
+		const result = await this.client.searchIncidents({
+			filter,
+			sort: [{ field: 'incidentKey', order: 'DESC' }],
+			page: { from: 0, limit: 100 },
+		})
+		const incident =
+			this.selector.type === 'custom'
+				? result.items.find((incident) =>
+						(this.selector.value as (incident: Incident) => boolean)(incident)
+					)
+				: result.items[0]
+		if (!incident) {
+			return null
+		}
+		this.lastSeenProcessInstanceKey = incident.processInstanceKey
+		this.lastSeenIncident = incident
+		return incident
+	}
+
+	/**
+	 * Describes the actual value of the last incident seen, or that none was found.
+	 */
+	private describeLastSeen(field: keyof Incident): string {
+		return this.lastSeenIncident
+			? ` (was: ${this.lastSeenIncident[field]})`
+			: ' (no incident found)'
+	}
+}
+
+function describeIncidentSelector(selector: IncidentSelector): string {
+	return selector.type === 'custom'
+		? 'matching custom selector'
+		: `with ${selector.type} '${selector.value}'`
+}
@@ -0,0 +1,337 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { ElementInstanceSearchRequestFilter } from '@camunda8/sdk/dist/c8/lib/C8Dto'
+
+import { CamundaProcessTestContext } from '../runtime/CamundaProcessTestContext'
+import { Job, JobFilter, JobSelector } from '../types'
+
+import { BaseAssert } from './BaseAssert'
+import { VariableMatchers } from './VariableMatchers'
+
+// Element types whose instances enclose other element instances
+const SCOPE_ELEMENT_TYPES: string[] = [
+	'SUB_PROCESS',
+	'EVENT_SUB_PROCESS',
+	'AD_HOC_SUB_PROCESS',
+	'MULTI_INSTANCE_BODY',
+]
+
+/**
+ * Assertions for jobs of service tasks and other job-based elements.
+ * Provides fluent API for verifying job state and metadata such as
+ * custom headers defined in the BPMN model.
+ */
+export class JobAssert extends BaseAssert {
+	private lastSeenProcessInstanceKey?: string
+
+	constructor(
+		context: CamundaProcessTestContext,
+		private selector: JobSelector,
+		timeout: number,
+		interval: number
+	) {
+		super(context, timeout, interval)
+	}
+
+	/**
+	 * Asserts that the job has been created.
+	 */
+	async isCreated(): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const job = await this.getJob()
+				return job !== null
+			},
+			`Job ${describeJobSelector(this.selector)} to be created`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the job has been completed.
+	 */
+	async isCompleted(): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const job = await this.getJob()
+				return job?.state === 'COMPLETED'
+			},
+			`Job ${describeJobSelector(this.selector)} to be completed`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that a worker failed the job, optionally with an error message
+	 * containing the given text.
+	 */
+	async isFailed(errorMessage?: string): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const job = await this.getJob()
+				return (
+					job?.state === 'FAILED' &&
+					(errorMessage === undefined ||
+						Boolean(job.errorMessage?.includes(errorMessage)))
+				)
+			},
+			`Job ${describeJobSelector(this.selector)} to be failed${errorMessage === undefined ? '' : ` with message containing: ${errorMessage}`}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that a worker threw a BPMN error for the job, optionally with
+	 * the given error code.
+	 */
+	async isErrored(errorCode?: string): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const job = await this.getJob()
+				return (
+					job?.state === 'ERROR_THROWN' &&
+					(errorCode === undefined || job.errorCode === errorCode)
+				)
+			},
+			`Job ${describeJobSelector(this.selector)} to throw a BPMN error${errorCode === undefined ? '' : ` with code ${errorCode}`}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the job has a specific number of retries left.
+	 */
+	async hasRetries(retries: number): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const job = await this.getJob()
+				return job?.retries === retries
+			},
+			`Job ${describeJobSelector(this.selector)} to have ${retries} retries`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the job was activated by a specific worker.
+	 */
+	async hasWorker(worker: string): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const job = await this.getJob()
+				return job?.worker === worker
+			},
+			`Job ${describeJobSelector(this.selector)} to be activated by worker ${worker}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the job has custom headers, as defined by the task headers
+	 * in the BPMN model. Other headers may be present.
+	 */
+	async hasCustomHeaders(expectedHeaders: Record<string, any>): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const job = await this.getJob()
+				return VariableMatchers.matchesPartially(
+					job?.customHeaders ?? {},
+					expectedHeaders
+				)
+			},
+			`Job ${describeJobSelector(this.selector)} to have custom headers: ${VariableMatchers.describe(expectedHeaders)}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts the variables a worker fetches with the job: the variables of
+	 * all scopes enclosing the job's element, such as subprocesses and
+	 * multi-instance bodies, with inner scopes overriding outer ones.
+	 * Values are compared like in ProcessInstanceAssert.hasVariables().
+	 */
+	async hasVariables(expectedVariables: Record<string, any>): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const job = await this.getJob()
+				if (!job) {
+					return false
+				}
+				const variables = await this.getJobVariables(job)
+				return Object.entries(expectedVariables).every(
+					([key, value]) =>
+						key in variables && VariableMatchers.matches(variables[key], value)
+				)
+			},
+			`Job ${describeJobSelector(this.selector)} to have variables: ${VariableMatchers.describe(expectedVariables)}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the activated job's deadline is before the given date.
+	 */
+	async hasDeadlineBefore(date: Date): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const job = await this.getJob()
+				return (
+					job?.deadline !== undefined &&
+					new Date(job.deadline).getTime() < date.getTime()
+				)
+			},
+			`Job ${describeJobSelector(this.selector)} to have a deadline before ${date.toISOString()}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the activated job's deadline is after the given date.
+	 */
+	async hasDeadlineAfter(date: Date): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const job = await this.getJob()
+				return (
+					job?.deadline !== undefined &&
+					new Date(job.deadline).getTime() > date.getTime()
+				)
+			},
+			`Job ${describeJobSelector(this.selector)} to have a deadline after ${date.toISOString()}`
+		)
+		return this
+	}
+
+	// ======== Helper methods ========
+
+	protected getDiagnosticProcessInstanceKey(): string | undefined {
+		if (this.selector.type === 'processInstanceKey') {
+			return this.selector.value as string
+		}
+		return this.selector.processInstanceKey ?? this.lastSeenProcessInstanceKey
+	}
+
+	/**
+	 * Gets the most recently created job matching the selector.
+	 */
+	private async getJob(): Promise<Job | null> {
+		const filter: JobFilter = {}
+		if (this.selector.processInstanceKey) {
+			filter.processInstanceKey = this.selector.processInstanceKey
+		}
+		switch (this.selector.type) {
+			case 'key':
+				filter.jobKey = this.selector.value as string
+				break
+			case 'type':
+				filter.type = this.selector.value as string
+				break
+			case 'elementId':
+				filter.elementId = this.selector.value as string
+				break
+			case 'processInstanceKey':
+				filter.processInstanceKey = this.selector.value as string
+				break
+		}
+
+		const jobs = await this.searchJobs(filter)
+		const job =
+			this.selector.type === 'custom'
+				? jobs.find((job) =>
+						(this.selector.value as (job: Job) => boolean)(job)
+					)
+				: jobs[0]
+		if (!job) {
+			return null
+		}
+		this.lastSeenProcessInstanceKey = job.processInstanceKey
+		return job
+	}
+
+	/**
+	 * Gets the variables visible to the job, merged from the process instance
+	 * down to the job's element instance. Truncated values are fetched in full.
+	 */
+	private async getJobVariables(job: Job): Promise<Record<string, any>> {
+		const scopeKeys = await this.getScopeKeys(job)
+		const result = await this.client.searchVariables({
+			filter: { processInstanceKey: job.processInstanceKey },
+			page: { from: 0, limit: 1000 },
+		})
+		const variables: Record<string, any> = {}
+		for (const scopeKey of scopeKeys) {
+			for (const variable of result.items) {
+				if (variable.scopeKey !== scopeKey) {
+					continue
+				}
+				const value = variable.isTruncated
+					? (
+							await this.client.getVariable({
+								variableKey: variable.variableKey,
+							})
+						).value
+					: variable.value
+				variables[variable.name] = JSON.parse(value)
+			}
+		}
+		return variables
+	}
+
+	/**
+	 * Gets the keys of the scopes enclosing the job's element instance,
+	 * outermost first: the process instance, its subprocesses and
+	 * multi-instance bodies, and the element instance itself.
+	 */
+	private async getScopeKeys(job: Job): Promise<string[]> {
+		const path = await this.findScopePath(
+			job.processInstanceKey,
+			job.elementInstanceKey
+		)
+		return path ?? [job.processInstanceKey, job.elementInstanceKey]
+	}
+
+	/**
+	 * Searches the element instance tree below a scope for an element
+	 * instance, descending only into elements that can hold variables of
+	 * nested elements. Returns the keys from the scope to the element
+	 * instance, or null if it is not below the scope.
+	 */
+	private async findScopePath(
+		scopeKey: string,
+		elementInstanceKey: string
+	): Promise<string[] | null> {
+		const children = await this.client.searchElementInstances({
+			// Supported by the REST API, but missing from the SDK filter type
+			filter: {
+				elementInstanceScopeKey: scopeKey,
+			} as ElementInstanceSearchRequestFilter,
+			sort: [{ field: 'elementInstanceKey', order: 'ASC' }],
+			page: { from: 0, limit: 1000 },
+		})
+		if (
+			children.items.some(
+				(child) => child.elementInstanceKey === elementInstanceKey
+			)
+		) {
+			return [scopeKey, elementInstanceKey]
+		}
+		for (const child of children.items) {
+			if (!SCOPE_ELEMENT_TYPES.includes(child.type)) {
+				continue
+			}
+			const path = await this.findScopePath(
+				child.elementInstanceKey,
+				elementInstanceKey
+			)
+			if (path) {
+				return [scopeKey, ...path]
+			}
+		}
+		return null
+	}
+}
+
+function describeJobSelector(selector: JobSelector): string {
+	return selector.type === 'custom'
+		? 'matching custom selector'
+		: `with ${selector.type} '${selector.value}'`
+}
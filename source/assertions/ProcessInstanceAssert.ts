@@ -2,18 +2,59 @@
 
 import Debug from 'debug'
 
+import {
+	BpmnProcessModel,
+	CamundaProcessCoverage,
+} from '../runtime/CamundaProcessCoverage'
 import { CamundaProcessTestContext } from '../runtime/CamundaProcessTestContext'
-import { ElementSelector, ProcessInstanceSelector } from '../types'
+import { SearchPagination } from '../runtime/SearchPagination'
+import {
+	ElementSelector,
+	ProcessInstance,
+	ProcessInstanceSelector,
+} from '../types'
 
 import { BaseAssert } from './BaseAssert'
+import { VariableMatchers } from './VariableMatchers'
 
 const debug = Debug('camunda:test:assert:process-instance')
 
+/**
+ * How to resolve the incidents found by an incident assertion.
+ */
+export interface IncidentResolution {
+	/** Retries to set on the failed job before resolving a job incident */
+	retries?: number
+	/** Variables to set at the incident's element before resolving, e.g. to fix data */
+	variables?: Record<string, any>
+}
+
+/**
+ * An incident assertion that can be awaited like any other assertion or
+ * followed by thenResolve() to resolve the incidents it found.
+ */
+export type IncidentAssertion<T> = Promise<T> & {
+	thenResolve(resolution?: IncidentResolution): Promise<T>
+}
+
+// Message subscription as returned by the REST API, which the SDK client does not wrap
+interface MessageSubscription {
+	messageSubscriptionKey: string
+	messageName: string
+	correlationKey?: string
+	messageSubscriptionType: string
+	elementId: string
+	processInstanceKey: string
+}
+
 /**
  * Assertions for process instances.
  * Provides fluent API for verifying process execution state and progress.
  */
 export class ProcessInstanceAssert extends BaseAssert {
+	private processModel?: BpmnProcessModel
+	private resolvedProcessInstanceKey?: string
+
 	constructor(
 		context: CamundaProcessTestContext,
 		private processInstanceKey: string | ProcessInstanceSelector,
@@ -28,10 +69,7 @@ export class ProcessInstanceAssert extends BaseAssert {
 	 * Asserts that the process instance is completed.
 	 */
 	async isCompleted(): Promise<this> {
-		const processInstanceKey =
-			typeof this.processInstanceKey === 'string'
-				? this.processInstanceKey
-				: (this.processInstanceKey.value as string)
+		const processInstanceKey = await this.getProcessInstanceKey()
 
 		await this.waitUntil(async () => {
 			const searchResult = await this.client.searchProcessInstances({
@@ -56,10 +94,7 @@ export class ProcessInstanceAssert extends BaseAssert {
 	 * Asserts that the process instance is active (running).
 	 */
 	async isActive(): Promise<this> {
-		const processInstanceKey =
-			typeof this.processInstanceKey === 'string'
-				? this.processInstanceKey
-				: (this.processInstanceKey.value as string)
+		const processInstanceKey = await this.getProcessInstanceKey()
 
 		await this.waitUntil(async () => {
 			const searchResult = await this.client.searchProcessInstances({
@@ -80,14 +115,26 @@ export class ProcessInstanceAssert extends BaseAssert {
 		return this
 	}
 
+	/**
+	 * Asserts that the process instance does not complete during the stable
+	 * window (see remainsFor()).
+	 */
+	async isNotCompleted(): Promise<this> {
+		const processInstanceKey = await this.getProcessInstanceKey()
+
+		await this.holdsFor(async () => {
+			const instance = await this.findProcessInstance()
+			return instance?.state !== 'COMPLETED'
+		}, `Process instance ${processInstanceKey} not to be completed`)
+
+		return this
+	}
+
 	/**
 	 * Asserts that the process instance is terminated.
 	 */
 	async isTerminated(): Promise<this> {
-		const processInstanceKey =
-			typeof this.processInstanceKey === 'string'
-				? this.processInstanceKey
-				: (this.processInstanceKey.value as string)
+		const processInstanceKey = await this.getProcessInstanceKey()
 
 		await this.waitUntil(async () => {
 			const searchResult = await this.client.searchProcessInstances({
@@ -110,32 +157,164 @@ export class ProcessInstanceAssert extends BaseAssert {
 
 	/**
 	 * Asserts that specific elements have been completed.
+	 * Strings are resolved through the configured element selector
+	 * (by id by default); ElementSelector objects are used as they are.
 	 */
-	async hasCompletedElements(...elementIds: string[]): Promise<this> {
-		for (const elementId of elementIds) {
-			await this.waitUntil(async () => {
-				const elements = await this.getCompletedElements()
-				return elements.some((el) => el.elementId === elementId)
-			}, `Element '${elementId}' to be completed`)
+	async hasCompletedElements(
+		...elements: Array<string | ElementSelector>
+	): Promise<this> {
+		for (const element of elements) {
+			const selector = this.toElementSelector(element)
+			await this.waitUntil(
+				async () => {
+					const completedElements = await this.getCompletedElements()
+					return completedElements.some((el) => matchesElement(selector, el))
+				},
+				`Element ${describeElement(selector)} to be completed`
+			)
 		}
 		return this
 	}
 
+	/**
+	 * Asserts that an element has been completed, exactly `times` times if
+	 * given, e.g. to verify loops or multi-instance cardinality. The
+	 * multi-instance body itself is not counted, only its inner instances.
+	 */
+	async hasCompletedElement(
+		element: string | ElementSelector,
+		options: { times?: number } = {}
+	): Promise<this> {
+		const selector = this.toElementSelector(element)
+		const { times } = options
+		let actualCount = 0
+		await this.waitUntil(
+			async () => {
+				actualCount = (await this.getCompletedElements()).filter(
+					(el) =>
+						el.type !== 'MULTI_INSTANCE_BODY' && matchesElement(selector, el)
+				).length
+				return times === undefined ? actualCount > 0 : actualCount === times
+			},
+			() =>
+				times === undefined
+					? `Element ${describeElement(selector)} to be completed`
+					: `Element ${describeElement(selector)} to be completed ${times} time(s), but was completed ${actualCount} time(s)`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the process instance does not pass an element, in any
+	 * state, nor take a sequence flow with the given id during the stable
+	 * window (see remainsFor()).
+	 * Elements are selected like in hasCompletedElements().
+	 */
+	async hasNotPassed(element: string | ElementSelector): Promise<this> {
+		const selector = this.toElementSelector(element)
+		await this.holdsFor(
+			async () => {
+				const elementInstances = await this.getElementInstances(selector)
+				if (elementInstances.length > 0) {
+					return false
+				}
+				if (selector.type !== 'id') {
+					return true
+				}
+				const sequenceFlows = await this.getTakenSequenceFlows()
+				return !sequenceFlows.some(
+					(flow) => flow.sequenceFlowId === selector.value
+				)
+			},
+			`Process instance not to pass element ${describeElement(selector)}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the given elements, or any element if none are given,
+	 * are not active during the stable window (see remainsFor()).
+	 */
+	async hasNoActiveElements(
+		...elements: Array<string | ElementSelector>
+	): Promise<this> {
+		const selectors = elements.map((element) => this.toElementSelector(element))
+		let violations: string[] = []
+		await this.holdsFor(
+			async () => {
+				violations = (await this.getActiveElements())
+					.filter(
+						(el) =>
+							selectors.length === 0 ||
+							selectors.some((selector) => matchesElement(selector, el))
+					)
+					.map((el) => el.elementId)
+				return violations.length === 0
+			},
+			() =>
+				`${selectors.length === 0 ? 'No elements' : `Elements ${selectors.map(describeElement).join(', ')} not`} to be active (active: ${violations.join(', ')})`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that elements have been completed in the given relative order.
+	 * Other elements may complete in between. Completion order is taken from
+	 * the element instance end dates, with the instance keys as tie-breaker.
+	 * Elements are selected like in hasCompletedElements().
+	 */
+	async hasCompletedElementsInOrder(
+		...elements: Array<string | ElementSelector>
+	): Promise<this> {
+		const selectors = elements.map((element) => this.toElementSelector(element))
+		let actualOrder: string[] = []
+		await this.waitUntil(
+			async () => {
+				const completedElements = (await this.getCompletedElements()).sort(
+					compareByCompletion
+				)
+				actualOrder = completedElements.map((el) => el.elementId)
+
+				let position = 0
+				return selectors.every((selector) => {
+					while (position < completedElements.length) {
+						if (matchesElement(selector, completedElements[position++])) {
+							return true
+						}
+					}
+					return false
+				})
+			},
+			() =>
+				`Elements to be completed in order: ${selectors.map(describeElement).join(', ')} (actual order: ${actualOrder.join(', ') || 'none'})`
+		)
+		return this
+	}
+
 	/**
 	 * Asserts that specific elements are currently active.
+	 * Elements are selected like in hasCompletedElements().
 	 */
-	async hasActiveElements(...elementIds: string[]): Promise<this> {
-		for (const elementId of elementIds) {
-			await this.waitUntil(async () => {
-				const elements = await this.getActiveElements()
-				return elements.some((el) => el.elementId === elementId)
-			}, `Element '${elementId}' to be active`)
+	async hasActiveElements(
+		...elements: Array<string | ElementSelector>
+	): Promise<this> {
+		for (const element of elements) {
+			const selector = this.toElementSelector(element)
+			await this.waitUntil(
+				async () => {
+					const activeElements = await this.getActiveElements()
+					return activeElements.some((el) => matchesElement(selector, el))
+				},
+				`Element ${describeElement(selector)} to be active`
+			)
 		}
 		return this
 	}
 
 	/**
 	 * Asserts that the process instance has specific variables.
+	 * Values are compared by deep equality and may contain Jest asymmetric
+	 * matchers, e.g. { orderId: expect.any(String) }.
 	 */
 	async hasVariables(expectedVariables: Record<string, any>): Promise<this> {
 		debug(
@@ -151,10 +330,116 @@ export class ProcessInstanceAssert extends BaseAssert {
 				debug('**************************variables')
 				debug(JSON.stringify(variables))
 				return Object.entries(expectedVariables).every(
-					([key, value]) => variables[key] === value
+					([key, value]) =>
+						key in variables && VariableMatchers.matches(variables[key], value)
 				)
 			},
-			`Process to have variables: ${JSON.stringify(expectedVariables)}`
+			`Process to have variables: ${VariableMatchers.describe(expectedVariables)}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the process instance has variables containing the expected
+	 * values. Objects only need to contain the expected keys, recursively.
+	 */
+	async hasVariablesContaining(
+		expectedVariables: Record<string, any>
+	): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const variables = await this.getProcessVariables()
+				return VariableMatchers.matchesPartially(variables, expectedVariables)
+			},
+			`Process to have variables containing: ${VariableMatchers.describe(expectedVariables)}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts the value of a variable, or of a nested value addressed by a
+	 * JSONPath-style path such as 'order.items[0].sku'.
+	 * The value is compared like in hasVariables().
+	 */
+	async hasVariable(path: string, expectedValue: any): Promise<this> {
+		VariableMatchers.parsePath(path)
+		await this.waitUntil(
+			async () => {
+				const variables = await this.getProcessVariables()
+				const { found, value } = VariableMatchers.readPath(variables, path)
+				return found && VariableMatchers.matches(value, expectedValue)
+			},
+			`Process to have variable '${path}': ${VariableMatchers.describe(expectedValue)}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that a variable, or a nested value addressed by path, satisfies
+	 * a predicate. The predicate fails by returning false or by throwing, so
+	 * Jest expect() calls can be used inside it.
+	 */
+	async hasVariableSatisfying(
+		path: string,
+		predicate: (value: any) => boolean | void
+	): Promise<this> {
+		VariableMatchers.parsePath(path)
+		let lastFailure = ''
+		await this.waitUntil(
+			async () => {
+				const variables = await this.getProcessVariables()
+				const { found, value } = VariableMatchers.readPath(variables, path)
+				if (!found) {
+					lastFailure = 'variable not found'
+					return false
+				}
+				try {
+					if (predicate(value) === false) {
+						lastFailure = `predicate returned false for ${JSON.stringify(value)}`
+						return false
+					}
+					return true
+				} catch (error) {
+					lastFailure = error instanceof Error ? error.message : String(error)
+					return false
+				}
+			},
+			() =>
+				`Process variable '${path}' to satisfy the predicate (${lastFailure})`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that an element instance has local variables, e.g. in a
+	 * subprocess, a multi-instance body or a task's local scope. Passes when
+	 * any instance of the selected element has all expected variables in its
+	 * own scope. Values are compared like in hasVariables().
+	 */
+	async hasLocalVariables(
+		element: string | ElementSelector,
+		expectedVariables: Record<string, any>
+	): Promise<this> {
+		const selector = this.toElementSelector(element)
+		await this.waitUntil(
+			async () => {
+				const elementInstances = await this.getElementInstances(selector)
+				for (const elementInstance of elementInstances) {
+					const variables = await this.getScopeVariables(
+						elementInstance.elementInstanceKey
+					)
+					const matches = Object.entries(expectedVariables).every(
+						([key, value]) =>
+							key in variables &&
+							VariableMatchers.matches(variables[key], value)
+					)
+					if (matches) {
+						return true
+					}
+				}
+				return false
+			},
+			`Element ${describeElement(selector)} to have local variables: ${VariableMatchers.describe(expectedVariables)}`
 		)
 		return this
 	}
@@ -175,46 +460,315 @@ export class ProcessInstanceAssert extends BaseAssert {
 
 	/**
 	 * Asserts that the process instance has an incident.
+	 * Chain thenResolve() to resolve the open incidents afterwards.
 	 */
-	async hasIncident(): Promise<this> {
-		await this.waitUntil(async () => {
-			const incidents = await this.getIncidents()
-			return incidents.length > 0
-		}, 'Process instance to have an incident')
-		return this
+	hasIncident(): IncidentAssertion<this> {
+		return this.withIncidentResolution(
+			async () => {
+				await this.waitUntil(async () => {
+					const incidents = await this.getIncidents()
+					return incidents.length > 0
+				}, 'Process instance to have an incident')
+				return this
+			},
+			() => true
+		)
 	}
 
 	/**
-	 * Asserts that the process instance has no incidents.
+	 * Asserts that the process instance has no open incidents during the
+	 * stable window (see remainsFor()). Resolved incidents are ignored.
 	 */
 	async hasNoIncidents(): Promise<this> {
+		let violation = ''
+		await this.holdsFor(
+			async () => {
+				const incident = (await this.getIncidents()).find(
+					(incident) => incident.state === 'ACTIVE'
+				)
+				violation = incident
+					? `[${incident.errorType}] ${incident.elementId}: ${incident.errorMessage}`
+					: ''
+				return !incident
+			},
+			() => `Process instance to have no incidents (found ${violation})`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the process instance has an incident with a specific error
+	 * message: containing a string, or matching a regular expression.
+	 * Use CamundaAssert.assertThatIncident() to assert a specific incident.
+	 * Chain thenResolve() to resolve the matching incidents afterwards.
+	 */
+	hasIncidentWithMessage(
+		errorMessage: string | RegExp
+	): IncidentAssertion<this> {
+		const matches = (incident: any) =>
+			typeof errorMessage === 'string'
+				? Boolean(incident.errorMessage?.includes(errorMessage))
+				: errorMessage.test(incident.errorMessage ?? '')
+		const description =
+			typeof errorMessage === 'string'
+				? `containing: ${errorMessage}`
+				: `matching ${errorMessage}`
+		return this.withIncidentResolution(async () => {
+			await this.waitUntil(async () => {
+				const incidents = await this.getIncidents()
+				return incidents.some(matches)
+			}, `Process instance to have incident with message ${description}`)
+			return this
+		}, matches)
+	}
+
+	/**
+	 * Asserts that the process instance has an open subscription for a message,
+	 * e.g. at an intermediate catch event or receive task. Use it before
+	 * publishing a message to avoid racing the process.
+	 */
+	async isWaitingForMessage(
+		messageName: string,
+		correlationKey?: string
+	): Promise<this> {
+		const description =
+			correlationKey === undefined
+				? `Process instance to wait for message '${messageName}'`
+				: `Process instance to wait for message '${messageName}' with correlation key '${correlationKey}'`
 		await this.waitUntil(async () => {
-			const incidents = await this.getIncidents()
-			return incidents.length === 0
-		}, 'Process instance to have no incidents')
+			const subscriptions = await this.getOpenMessageSubscriptions(messageName)
+			return subscriptions.some(
+				(subscription) =>
+					correlationKey === undefined ||
+					subscription.correlationKey === correlationKey
+			)
+		}, description)
 		return this
 	}
 
 	/**
-	 * Asserts that the process instance has an incident with a specific error message.
+	 * Asserts that the process instance waits for a signal: an intermediate
+	 * signal catch event is active, an event-based gateway leading to one is
+	 * active, or an active activity has a signal boundary event.
 	 */
-	async hasIncidentWithMessage(errorMessage: string): Promise<this> {
+	async isWaitingForSignal(signalName: string): Promise<this> {
 		await this.waitUntil(async () => {
-			const incidents = await this.getIncidents()
-			return incidents.some((incident) =>
-				incident.errorMessage?.includes(errorMessage)
+			const model = await this.getProcessModel()
+			const activeElementIds = (await this.getActiveElements()).map(
+				(element) => element.elementId as string
+			)
+			const catchesSignal = (elementId: string) =>
+				model.elements.some(
+					(element) =>
+						element.id === elementId &&
+						element.type === 'intermediateCatchEvent' &&
+						element.signalName === signalName
+				)
+
+			return activeElementIds.some(
+				(elementId) =>
+					catchesSignal(elementId) ||
+					model.elements.some(
+						(element) =>
+							element.type === 'boundaryEvent' &&
+							element.attachedToRef === elementId &&
+							element.signalName === signalName
+					) ||
+					model.sequenceFlows.some(
+						(flow) =>
+							flow.sourceRef === elementId && catchesSignal(flow.targetRef)
+					)
 			)
-		}, `Process instance to have incident with message containing: ${errorMessage}`)
+		}, `Process instance to wait for signal '${signalName}'`)
 		return this
 	}
 
+	/**
+	 * Asserts that the process instance has called a child process, e.g. via
+	 * a call activity, and returns an assertion for the child instance.
+	 * Fails if several child instances of the process exist, unless match
+	 * is 'latest', which selects the most recently started one.
+	 */
+	async hasChildProcessInstance(
+		childProcessId: string,
+		options: { match?: 'only' | 'latest' } = {}
+	): Promise<ProcessInstanceAssert> {
+		const parentProcessInstanceKey = await this.getProcessInstanceKey()
+		let children: ProcessInstance[] = []
+		await this.waitUntil(async () => {
+			const result = await this.client.searchProcessInstances({
+				filter: {
+					parentProcessInstanceKey,
+					processDefinitionId: childProcessId,
+				},
+				sort: [{ field: 'startDate', order: 'DESC' }],
+				page: { from: 0, limit: 100 },
+			})
+			children = result.items
+			return children.length > 0
+		}, `Process instance to have a child process instance '${childProcessId}'`)
+
+		if (children.length > 1 && options.match !== 'latest') {
+			throw new Error(
+				`Expected one child process instance '${childProcessId}', but found ${children.length}: ${children
+					.map((child) => child.processInstanceKey)
+					.join(', ')}. Select the latest instance with { match: 'latest' }`
+			)
+		}
+
+		return new ProcessInstanceAssert(
+			this.context,
+			children[0].processInstanceKey,
+			this.elementSelector,
+			this.timeout,
+			this.interval
+		)
+	}
+
 	// ======== Helper methods ========
 
+	/**
+	 * Resolves the process instance before polling, so that selector errors
+	 * are reported as they are instead of being retried until the timeout.
+	 */
+	protected async waitUntil(
+		condition: () => Promise<boolean> | boolean,
+		description: string | (() => string)
+	): Promise<void> {
+		await this.getProcessInstanceKey()
+		return super.waitUntil(condition, description)
+	}
+
+	protected async holdsFor(
+		condition: () => Promise<boolean> | boolean,
+		description: string | (() => string)
+	): Promise<void> {
+		await this.getProcessInstanceKey()
+		return super.holdsFor(condition, description)
+	}
+
+	protected getDiagnosticProcessInstanceKey(): string | undefined {
+		if (typeof this.processInstanceKey === 'string') {
+			return this.processInstanceKey
+		}
+		return this.processInstanceKey.type === 'key'
+			? (this.processInstanceKey.value as string)
+			: this.resolvedProcessInstanceKey
+	}
+
+	/**
+	 * Gets the key of the asserted process instance. Selectors by process id
+	 * or predicate are resolved once, waiting up to the assertion timeout for
+	 * a matching instance, e.g. one started by a timer or a call activity.
+	 */
+	private async getProcessInstanceKey(): Promise<string> {
+		if (typeof this.processInstanceKey === 'string') {
+			return this.processInstanceKey
+		}
+		const selector = this.processInstanceKey
+		if (selector.type === 'key') {
+			return selector.value as string
+		}
+		if (this.resolvedProcessInstanceKey) {
+			return this.resolvedProcessInstanceKey
+		}
+
+		const startTime = Date.now()
+		for (;;) {
+			const instances = await this.findMatchingProcessInstances(selector)
+			if (instances.length > 1 && selector.match !== 'latest') {
+				throw new Error(
+					`Expected one process instance ${describeProcessInstanceSelector(selector)}, but found ${instances.length}: ${instances
+						.map((instance) => instance.processInstanceKey)
+						.join(
+							', '
+						)}. Narrow the selector or select the latest instance with { match: 'latest' }`
+				)
+			}
+			if (instances.length > 0) {
+				// Instances are sorted by start date, newest first
+				this.resolvedProcessInstanceKey = instances[0].processInstanceKey
+				debug(
+					`Resolved process instance ${describeProcessInstanceSelector(selector)}: ${this.resolvedProcessInstanceKey}`
+				)
+				return this.resolvedProcessInstanceKey
+			}
+			if (Date.now() - startTime >= this.timeout) {
+				throw new Error(
+					`No process instance found ${describeProcessInstanceSelector(selector)} after ${this.timeout}ms`
+				)
+			}
+			await this.sleep(this.interval)
+		}
+	}
+
+	/**
+	 * Finds the process instances matching a selector, newest first. Only
+	 * instances of the process definitions deployed through the context are
+	 * searched, if any match the selector, and instances created by earlier
+	 * tests are ignored, as are their child instances.
+	 */
+	private async findMatchingProcessInstances(
+		selector: ProcessInstanceSelector
+	): Promise<ProcessInstance[]> {
+		const processDefinitionId =
+			selector.type === 'processId' ? (selector.value as string) : undefined
+		const processDefinitionKeys =
+			this.context.getDeployedProcessDefinitionKeys(processDefinitionId)
+		const filters =
+			processDefinitionKeys.length > 0
+				? processDefinitionKeys.map((processDefinitionKey) => ({
+						processDefinitionKey,
+					}))
+				: [processDefinitionId ? { processDefinitionId } : {}]
+
+		const instances: ProcessInstance[] = []
+		for (const filter of filters) {
+			instances.push(
+				...(await SearchPagination.searchAllPages((page) =>
+					this.client.searchProcessInstances({
+						filter,
+						sort: [{ field: 'startDate', order: 'DESC' }],
+						page,
+					})
+				))
+			)
+		}
+
+		const predicate =
+			selector.type === 'custom'
+				? (selector.value as (instance: ProcessInstance) => boolean)
+				: () => true
+		return instances
+			.filter(
+				(instance) =>
+					!this.context.isProcessInstanceOfEarlierTest(
+						instance.processInstanceKey
+					) &&
+					!(
+						instance.parentProcessInstanceKey &&
+						this.context.isProcessInstanceOfEarlierTest(
+							instance.parentProcessInstanceKey
+						)
+					) &&
+					predicate(instance)
+			)
+			.sort((a, b) => b.startDate.localeCompare(a.startDate))
+	}
+
+	private async findProcessInstance(): Promise<any | undefined> {
+		const searchResult = await this.client.searchProcessInstances({
+			filter: {
+				processInstanceKey: await this.getProcessInstanceKey(),
+			},
+			sort: [{ field: 'processInstanceKey', order: 'ASC' }],
+			page: { from: 0, limit: 1 },
+		})
+		return searchResult.items[0]
+	}
+
 	private async getProcessInstance(): Promise<any> {
-		const processInstanceKey =
-			typeof this.processInstanceKey === 'string'
-				? this.processInstanceKey
-				: (this.processInstanceKey.value as string)
+		const processInstanceKey = await this.getProcessInstanceKey()
 
 		const searchResult = await this.client.searchProcessInstances({
 			filter: {
@@ -237,10 +791,7 @@ export class ProcessInstanceAssert extends BaseAssert {
 		return this.client
 			.searchElementInstances({
 				filter: {
-					processInstanceKey:
-						typeof this.processInstanceKey === 'string'
-							? this.processInstanceKey
-							: (this.processInstanceKey.value as string),
+					processInstanceKey: await this.getProcessInstanceKey(),
 					state: 'COMPLETED',
 				},
 				sort: [{ field: 'elementInstanceKey', order: 'ASC' }],
@@ -249,14 +800,25 @@ export class ProcessInstanceAssert extends BaseAssert {
 			.then((result) => result.items)
 	}
 
+	private async getTakenSequenceFlows(): Promise<
+		Array<{ sequenceFlowId: string; elementId: string }>
+	> {
+		const processInstanceKey = await this.getProcessInstanceKey()
+		const result = await this.client.callApiEndpoint<
+			never,
+			{ items: Array<{ sequenceFlowId: string; elementId: string }> }
+		>({
+			method: 'GET',
+			urlPath: `process-instances/${processInstanceKey}/sequence-flows`,
+		})
+		return result.items
+	}
+
 	private async getActiveElements(): Promise<any[]> {
 		return this.client
 			.searchElementInstances({
 				filter: {
-					processInstanceKey:
-						typeof this.processInstanceKey === 'string'
-							? this.processInstanceKey
-							: (this.processInstanceKey.value as string),
+					processInstanceKey: await this.getProcessInstanceKey(),
 					state: 'ACTIVE',
 				},
 				sort: [{ field: 'elementInstanceKey', order: 'ASC' }],
@@ -265,18 +827,28 @@ export class ProcessInstanceAssert extends BaseAssert {
 			.then((result) => result.items)
 	}
 
+	/**
+	 * Gets the variables of the process instance's root scope. Variables of
+	 * subprocesses, multi-instance bodies and tasks are local to their
+	 * element instance and checked with hasLocalVariables().
+	 */
 	private async getProcessVariables(): Promise<Record<string, any>> {
-		const processInstanceKey =
-			typeof this.processInstanceKey === 'string'
-				? this.processInstanceKey
-				: (this.processInstanceKey.value as string)
+		const processInstanceKey = await this.getProcessInstanceKey()
 		debug(
 			`getProcessVariables: Fetching variables for process instance ${processInstanceKey}`
 		)
+		return this.getScopeVariables(processInstanceKey)
+	}
+
+	private async getScopeVariables(
+		scopeKey: string
+	): Promise<Record<string, any>> {
 		const result = await this.client.searchVariables({
 			filter: {
-				processInstanceKey,
+				processInstanceKey: await this.getProcessInstanceKey(),
+				scopeKey,
 			},
+			page: { from: 0, limit: 1000 },
 		})
 
 		const variables = result.items.reduce(
@@ -290,18 +862,166 @@ export class ProcessInstanceAssert extends BaseAssert {
 		return variables
 	}
 
+	/**
+	 * Gets the element instances of the process instance, in all states,
+	 * that match the element selector.
+	 */
+	private async getElementInstances(selector: ElementSelector): Promise<any[]> {
+		const result = await this.client.searchElementInstances({
+			filter: {
+				processInstanceKey: await this.getProcessInstanceKey(),
+			},
+			sort: [{ field: 'elementInstanceKey', order: 'ASC' }],
+			page: { from: 0, limit: 1000 },
+		})
+		return result.items.filter((element) => matchesElement(selector, element))
+	}
+
+	/**
+	 * Resolves element ids through the configured element selector.
+	 */
+	private toElementSelector(
+		element: string | ElementSelector
+	): ElementSelector {
+		return typeof element === 'string' ? this.elementSelector(element) : element
+	}
+
 	private async getIncidents(): Promise<any[]> {
 		return this.client
 			.searchIncidents({
 				filter: {
-					processInstanceKey:
-						typeof this.processInstanceKey === 'string'
-							? this.processInstanceKey
-							: (this.processInstanceKey.value as string),
+					processInstanceKey: await this.getProcessInstanceKey(),
 				},
 				sort: [{ field: 'incidentKey', order: 'ASC' }],
 				page: { from: 0, limit: 1000 },
 			})
 			.then((result) => result.items)
 	}
+
+	private async getOpenMessageSubscriptions(
+		messageName: string
+	): Promise<MessageSubscription[]> {
+		const result = await this.client.callApiEndpoint<
+			Record<string, unknown>,
+			{ items: MessageSubscription[] }
+		>({
+			method: 'POST',
+			urlPath: 'message-subscriptions/search',
+			body: {
+				filter: {
+					processInstanceKey: await this.getProcessInstanceKey(),
+					messageName,
+				},
+				page: { from: 0, limit: 100 },
+			},
+		})
+		// Correlated and deleted subscriptions no longer wait for a message
+		return result.items.filter((subscription) =>
+			['CREATED', 'MIGRATED'].includes(subscription.messageSubscriptionType)
+		)
+	}
+
+	private async getProcessModel(): Promise<BpmnProcessModel> {
+		if (!this.processModel) {
+			const instance = await this.getProcessInstance()
+			const xml = await this.client.getProcessDefinitionXML(
+				instance.processDefinitionKey
+			)
+			const model = CamundaProcessCoverage.parseBpmn(xml).find(
+				(process) =>
+					process.processDefinitionId === instance.processDefinitionId
+			)
+			if (!model) {
+				throw new Error(
+					`Process ${instance.processDefinitionId} not found in its BPMN resource`
+				)
+			}
+			this.processModel = model
+		}
+		return this.processModel
+	}
+
+	/**
+	 * Runs an incident assertion and exposes thenResolve(), which resolves the
+	 * open incidents selected by the filter once the assertion has passed.
+	 */
+	private withIncidentResolution(
+		assertion: () => Promise<this>,
+		filter: (incident: any) => boolean
+	): IncidentAssertion<this> {
+		const result = assertion()
+		return Object.assign(result, {
+			thenResolve: async (resolution: IncidentResolution = {}) => {
+				await result
+				const incidents = (await this.getIncidents()).filter(
+					(incident) => incident.state === 'ACTIVE' && filter(incident)
+				)
+				for (const incident of incidents) {
+					await this.resolveIncident(incident, resolution)
+				}
+				return this
+			},
+		})
+	}
+
+	private async resolveIncident(
+		incident: any,
+		resolution: IncidentResolution
+	): Promise<void> {
+		if (resolution.variables) {
+			await this.client.updateElementInstanceVariables({
+				elementInstanceKey: incident.elementInstanceKey,
+				variables: resolution.variables,
+			})
+		}
+		if (resolution.retries !== undefined && incident.jobKey) {
+			await this.context.updateJobRetries(incident.jobKey, resolution.retries)
+		}
+		await this.context.resolveIncident(incident.incidentKey)
+	}
+}
+
+function matchesElement(selector: ElementSelector, element: any): boolean {
+	switch (selector.type) {
+		case 'id':
+			return element.elementId === selector.value
+		case 'name':
+			return element.elementName === selector.value
+		case 'type':
+			// Element instances report types like USER_TASK, selectors use BPMN names like userTask
+			return (
+				String(element.type).replace(/_/g, '').toLowerCase() ===
+				String(selector.value).toLowerCase()
+			)
+		case 'custom':
+			return (selector.value as (element: unknown) => boolean)(element)
+		default:
+			return false
+	}
+}
+
+function describeElement(selector: ElementSelector): string {
+	return selector.type === 'custom'
+		? 'matching custom selector'
+		: `with ${selector.type} '${selector.value}'`
+}
+
+function compareByCompletion(first: any, second: any): number {
+	const byEndDate =
+		new Date(first.endDate).getTime() - new Date(second.endDate).getTime()
+	if (byEndDate !== 0) {
+		return byEndDate
+	}
+	// Keys are int64 strings, so compare by length before comparing digits
+	const firstKey = String(first.elementInstanceKey)
+	const secondKey = String(second.elementInstanceKey)
+	return firstKey.length - secondKey.length || firstKey.localeCompare(secondKey)
+}
+
+function describeProcessInstanceSelector(
+	selector: ProcessInstanceSelector
+): string {
+	return selector.type === 'custom'
+		? 'matching custom selector'
+		: `with ${selector.type} '${selector.value}'`
 }
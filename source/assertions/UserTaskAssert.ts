@@ -1,16 +1,43 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { SearchTasksRequest, UserTask } from '@camunda8/sdk/dist/c8/lib/C8Dto'
+import {
+	SearchTasksRequest,
+	SearchUserTasksRequestFilter,
+	UserTask,
+} from '@camunda8/sdk/dist/c8/lib/C8Dto'
 
 import { CamundaProcessTestContext } from '../runtime/CamundaProcessTestContext'
 import { UserTaskSelector } from '../types'
 
 import { BaseAssert } from './BaseAssert'
+import { FormSchema, FormValidator } from './FormValidator'
+import { VariableMatchers } from './VariableMatchers'
+
+/**
+ * Changes to a user task, see UserTaskAssert.update().
+ */
+export interface UserTaskUpdate {
+	dueDate?: Date | string
+	followUpDate?: Date | string
+	priority?: number
+	candidateUsers?: string[]
+	candidateGroups?: string[]
+}
+
+// Linked form as returned by the user task form endpoint, which the SDK client does not wrap
+interface LinkedForm {
+	formId: string
+	formKey: string
+	version: number
+	schema: FormSchema | string
+}
 
 /**
  * Assertions for user tasks.
  * Provides fluent API for verifying user task state and properties.
  */
 export class UserTaskAssert extends BaseAssert {
+	private lastSeenProcessInstanceKey?: string
+
 	constructor(
 		context: CamundaProcessTestContext,
 		private selector: UserTaskSelector,
@@ -31,6 +58,18 @@ export class UserTaskAssert extends BaseAssert {
 		return this
 	}
 
+	/**
+	 * Asserts that no matching active user task is created during the
+	 * stable window (see remainsFor()).
+	 */
+	async doesNotExist(): Promise<this> {
+		await this.holdsFor(async () => {
+			const task = await this.getUserTask(false)
+			return task === null
+		}, 'User task not to exist')
+		return this
+	}
+
 	/**
 	 * Asserts that the user task is assigned to a specific user.
 	 */
@@ -48,7 +87,7 @@ export class UserTaskAssert extends BaseAssert {
 	async isUnassigned(): Promise<this> {
 		await this.waitUntil(async () => {
 			const task = await this.getUserTask()
-			return !task?.assignee
+			return task !== null && !task.assignee
 		}, 'User task to be unassigned')
 		return this
 	}
@@ -67,8 +106,146 @@ export class UserTaskAssert extends BaseAssert {
 		return this
 	}
 
+	/**
+	 * Asserts that the user task has specific candidate users.
+	 */
+	async hasCandidateUsers(...users: string[]): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const task = await this.getUserTask()
+				return users.every((user) => task?.candidateUsers?.includes(user))
+			},
+			`User task to have candidate users: ${users.join(', ')}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the user task has a specific name.
+	 */
+	async hasName(name: string): Promise<this> {
+		await this.waitUntil(async () => {
+			const task = await this.getUserTask()
+			return task?.name === name
+		}, `User task to have name ${name}`)
+		return this
+	}
+
+	/**
+	 * Asserts that the user task has a specific due date.
+	 * Dates are compared as points in time, regardless of their format.
+	 */
+	async hasDueDate(dueDate: Date | string): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const task = await this.getUserTask()
+				return isSameDate(task?.dueDate, dueDate)
+			},
+			`User task to have due date ${toIsoString(dueDate)}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the user task has a specific follow-up date.
+	 * Dates are compared as points in time, regardless of their format.
+	 */
+	async hasFollowUpDate(followUpDate: Date | string): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const task = await this.getUserTask()
+				return isSameDate(task?.followUpDate, followUpDate)
+			},
+			`User task to have follow-up date ${toIsoString(followUpDate)}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the user task has a specific priority.
+	 */
+	async hasPriority(priority: number): Promise<this> {
+		await this.waitUntil(async () => {
+			const task = await this.getUserTask()
+			return task?.priority === priority
+		}, `User task to have priority ${priority}`)
+		return this
+	}
+
+	/**
+	 * Asserts that the user task has a specific form key.
+	 */
+	async hasFormKey(formKey: string): Promise<this> {
+		await this.waitUntil(async () => {
+			const task = await this.getUserTask()
+			return task?.formKey === formKey
+		}, `User task to have form key ${formKey}`)
+		return this
+	}
+
+	/**
+	 * Asserts that the user task has custom headers, as defined by the task
+	 * headers in the BPMN model. Other headers may be present.
+	 */
+	async hasCustomHeaders(expectedHeaders: Record<string, any>): Promise<this> {
+		await this.waitUntil(
+			async () => {
+				const task = await this.getUserTask()
+				return VariableMatchers.matchesPartially(
+					task?.customHeaders ?? {},
+					expectedHeaders
+				)
+			},
+			`User task to have custom headers: ${VariableMatchers.describe(expectedHeaders)}`
+		)
+		return this
+	}
+
+	/**
+	 * Asserts that the user task is linked to a deployed form with the given form ID.
+	 */
+	async hasLinkedForm(formId: string): Promise<this> {
+		let linkedFormId: string | undefined
+		await this.waitUntil(
+			async () => {
+				const task = await this.getUserTask()
+				if (!task) {
+					return false
+				}
+				linkedFormId = (await this.getLinkedForm(task))?.formId
+				return linkedFormId === formId
+			},
+			() =>
+				`User task to have linked form ${formId} (was: ${linkedFormId ?? 'none'})`
+		)
+		return this
+	}
+
+	/**
+	 * Validates form data against the schema of the task's linked form:
+	 * required fields, value types, allowed options and unknown variables.
+	 * Call it before complete() to check the data a form would submit.
+	 */
+	async validateFormData(variables: Record<string, any>): Promise<this> {
+		const task = await this.getActionableUserTask('validate form data of')
+		const form = await this.getLinkedForm(task)
+		if (!form) {
+			throw new Error(
+				`Cannot validate form data: user task ${task.elementId} has no linked form`
+			)
+		}
+		const problems = FormValidator.validate(form.schema, variables)
+		if (problems.length > 0) {
+			throw new Error(
+				`Form data does not match form ${form.formId}:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`
+			)
+		}
+		return this
+	}
+
 	/**
 	 * Asserts that the user task has specific variables.
+	 * Values are compared like in ProcessInstanceAssert.hasVariables().
 	 */
 	async hasVariables(expectedVariables: Record<string, any>): Promise<this> {
 		await this.waitUntil(
@@ -95,157 +272,210 @@ export class UserTaskAssert extends BaseAssert {
 				}
 
 				return Object.entries(expectedVariables).every(
-					([key, value]) => variableMap[key] === value
+					([key, value]) =>
+						key in variableMap &&
+						VariableMatchers.matches(variableMap[key], value)
 				)
 			},
-			`User task to have variables: ${JSON.stringify(expectedVariables)}`
+			`User task to have variables: ${VariableMatchers.describe(expectedVariables)}`
 		)
 		return this
 	}
 
 	/**
-	 * Asserts that the user task has been completed.
+	 * Asserts that a matching user task has been completed.
 	 */
 	async isCompleted(): Promise<this> {
 		await this.waitUntil(async () => {
-			const task = await this.getUserTask()
-			return task?.state === 'COMPLETED'
+			const task = await this.getUserTask(true, 'COMPLETED')
+			return task !== null
 		}, 'User task to be completed')
 		return this
 	}
 
 	/**
-	 * Completes the user task with the specified variables.
+	 * Asserts that a matching user task has been canceled, e.g. by an
+	 * interrupting boundary event.
 	 */
-	async complete(variables: Record<string, any> = {}): Promise<this> {
-		const task = await this.getUserTask()
-		if (!task) {
-			throw new Error('Cannot complete user task: task not found')
-		}
+	async isCanceled(): Promise<this> {
+		await this.waitUntil(async () => {
+			const task = await this.getUserTask(true, 'CANCELED')
+			return task !== null
+		}, 'User task to be canceled')
+		return this
+	}
 
+	/**
+	 * Completes the user task with the specified variables.
+	 * The optional action is recorded with the completion, e.g. 'approve'.
+	 */
+	async complete(
+		variables: Record<string, any> = {},
+		action?: string
+	): Promise<this> {
+		const task = await this.getActionableUserTask('complete')
 		try {
-			// Use the CamundaRestClient to complete the task
 			await this.client.completeUserTask({
 				userTaskKey: task.userTaskKey,
 				variables,
+				action,
 			})
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes('400')) {
-					throw new Error(
-						`Cannot complete user task: ${error.message}. Task must be in CREATED state and assigned.`
-					)
-				}
-				if (error.message.includes('403')) {
-					throw new Error(
-						`Cannot complete user task: Permission denied. ${error.message}`
-					)
-				}
-				if (error.message.includes('404')) {
-					throw new Error(
-						`Cannot complete user task: Task not found. ${error.message}`
-					)
-				}
-			}
-			throw error
+			throw toUserTaskError(
+				'complete',
+				error,
+				'Task must be in CREATED state and assigned.'
+			)
 		}
-
 		return this
 	}
 
+	/**
+	 * Assigns the user task to a user and completes it on their behalf,
+	 * like a user claiming and submitting a task in a task list.
+	 */
+	async completeAs(
+		assignee: string,
+		variables: Record<string, any> = {},
+		action?: string
+	): Promise<this> {
+		await this.assignTo(assignee)
+		return this.complete(variables, action)
+	}
+
 	/**
 	 * Assigns the user task to a specific user.
 	 */
 	async assignTo(assignee: string): Promise<this> {
-		const task = await this.getUserTask()
-		if (!task) {
-			throw new Error('Cannot assign user task: task not found')
-		}
-
+		const task = await this.getActionableUserTask('assign')
 		try {
-			// Use the CamundaRestClient to assign the task
 			await this.client.assignUserTask({
 				userTaskKey: task.userTaskKey,
 				assignee,
 				allowOverride: true, // Allow reassignment in test scenarios
 			})
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes('400')) {
-					throw new Error(
-						`Cannot assign user task: ${error.message}. Task must be in CREATED state.`
-					)
-				}
-				if (error.message.includes('403')) {
-					throw new Error(
-						`Cannot assign user task: Permission denied. ${error.message}`
-					)
-				}
-				if (error.message.includes('404')) {
-					throw new Error(
-						`Cannot assign user task: Task not found. ${error.message}`
-					)
-				}
-			}
-			throw error
+			throw toUserTaskError('assign', error, 'Task must be in CREATED state.')
 		}
+		return this
+	}
 
+	/**
+	 * Removes the assignee of the user task.
+	 */
+	async unassign(): Promise<this> {
+		const task = await this.getActionableUserTask('unassign')
+		try {
+			await this.client.unassignUserTask({ userTaskKey: task.userTaskKey })
+		} catch (error) {
+			throw toUserTaskError('unassign', error, 'Task must be in CREATED state.')
+		}
+		return this
+	}
+
+	/**
+	 * Updates the dates, priority or candidates of the user task.
+	 * Only the given properties are changed.
+	 */
+	async update(changes: UserTaskUpdate): Promise<this> {
+		const task = await this.getActionableUserTask('update')
+		const changeset = {
+			...changes,
+			dueDate: changes.dueDate && toIsoString(changes.dueDate),
+			followUpDate: changes.followUpDate && toIsoString(changes.followUpDate),
+		}
+		try {
+			// The SDK client does not support changing the priority
+			await this.client.callApiEndpoint<Record<string, unknown>>({
+				method: 'PATCH',
+				urlPath: `user-tasks/${task.userTaskKey}`,
+				body: { changeset },
+				json: false,
+			})
+		} catch (error) {
+			throw toUserTaskError('update', error, 'Task must be in CREATED state.')
+		}
 		return this
 	}
 
 	// ======== Helper methods ========
 
-	private async getUserTask(): Promise<UserTask | null> {
-		try {
-			if (this.selector.type === 'key') {
-				// Direct lookup by task key
-				const task = await this.client.getUserTask(
-					this.selector.value as string
-				)
-				return task
-			}
+	protected getDiagnosticProcessInstanceKey(): string | undefined {
+		return this.selector.processInstanceKey ?? this.lastSeenProcessInstanceKey
+	}
+
+	/**
+	 * Finds the most recently created user task matching the selector in the
+	 * given state, active tasks by default. Searches are retried for up to
+	 * 10 seconds (at most the assertion timeout) to wait for indexing,
+	 * unless poll is false.
+	 */
+	private async getUserTask(
+		poll = true,
+		state: UserTask['state'] = 'CREATED'
+	): Promise<UserTask | null> {
+		const task = await this.findUserTask(poll, state)
+		if (task) {
+			this.lastSeenProcessInstanceKey = task.processInstanceKey
+		}
+		return task
+	}
+
+	private async getActionableUserTask(operation: string): Promise<UserTask> {
+		const task = await this.getUserTask()
+		if (!task) {
+			throw new Error(`Cannot ${operation} user task: task not found`)
+		}
+		return task
+	}
 
-			// Build search query based on selector type
-			const searchQuery = this.buildSearchQuery()
-			if (!searchQuery) {
+	/**
+	 * Gets the linked form of the user task, or null if it has none.
+	 */
+	private async getLinkedForm(task: UserTask): Promise<LinkedForm | null> {
+		try {
+			const form = await this.client.callApiEndpoint<never, LinkedForm | ''>({
+				method: 'GET',
+				urlPath: `user-tasks/${task.userTaskKey}/form`,
+			})
+			// Tasks without a linked form get an empty response
+			return form || null
+		} catch (error) {
+			if (error instanceof Error && error.message.includes('404')) {
 				return null
 			}
+			throw error
+		}
+	}
+
+	private async findUserTask(
+		poll: boolean,
+		state: UserTask['state']
+	): Promise<UserTask | null> {
+		try {
+			const searchQuery = this.buildSearchQuery(state)
 
 			// Use polling to wait for user tasks to be available
 			// This is critical for Camunda 8.8+ where user tasks may take time to be indexed
 			const startTime = Date.now()
-			const timeout = 10000 // 10 seconds timeout
+			const timeout = Math.min(10000, this.timeout) // 10 seconds timeout
 			const interval = 500 // 500ms polling interval
 
 			while (Date.now() - startTime < timeout) {
-				// Search for tasks matching the criteria
-				const response = await this.client.searchUserTasks({
-					...searchQuery,
-					filter: {
-						...searchQuery.filter,
-						state: 'CREATED', // Only search for active user tasks
-					},
-				})
+				// Search for tasks matching the criteria, newest first
+				const response = await this.client.searchUserTasks(searchQuery)
 
-				if (response.items.length > 0) {
-					// For custom selectors, we need to get full task details for each result
-					if (
-						this.selector.type === 'custom' &&
-						typeof this.selector.value === 'function'
-					) {
-						const predicate = this.selector.value as (task: UserTask) => boolean
-						for (const taskDetails of response.items) {
-							const fullTask = await this.client.getUserTask(
-								taskDetails.userTaskKey
-							)
-							if (predicate(fullTask)) {
-								return fullTask
-							}
-						}
-					} else {
-						// For non-custom selectors, get the full details of the first matching task
-						return await this.client.getUserTask(response.items[0].userTaskKey)
-					}
+				// Select on the search results, and only get the full details of
+				// the selected task, as search results may omit fields
+				const selected = response.items.find(
+					(task) => task.state === state && this.matchesSelector(task)
+				)
+				if (selected) {
+					return await this.client.getUserTask(selected.userTaskKey)
+				}
+
+				if (!poll) {
+					break
 				}
 
 				// Wait before next poll
@@ -263,34 +493,93 @@ export class UserTaskAssert extends BaseAssert {
 		}
 	}
 
-	private buildSearchQuery(): SearchTasksRequest | null {
-		const baseQuery: SearchTasksRequest = {
+	/**
+	 * Builds the search query for the selector. Selectors the search API
+	 * cannot filter by are matched by matchesSelector() instead.
+	 */
+	private buildSearchQuery(state: UserTask['state']): SearchTasksRequest {
+		const filter: SearchUserTasksRequestFilter = { state }
+		if (this.selector.processInstanceKey) {
+			filter.processInstanceKey = this.selector.processInstanceKey
+		}
+
+		switch (this.selector.type) {
+			case 'key':
+				filter.userTaskKey = this.selector.value as string
+				break
+			case 'elementId':
+				filter.elementId = this.selector.value as string
+				break
+			case 'assignee':
+				filter.assignee = this.selector.value as string
+				break
+			case 'candidateUser':
+				filter.candidateUser = this.selector.value as string
+				break
+		}
+
+		return {
+			filter,
+			sort: [{ field: 'creationDate', order: 'DESC' }],
 			page: {
 				from: 0,
 				limit: 50, // Reasonable limit for test scenarios
 			},
 		}
+	}
 
+	private matchesSelector(task: UserTask): boolean {
 		switch (this.selector.type) {
-			case 'elementId':
-				return {
-					...baseQuery,
-					filter: {
-						elementId: this.selector.value as string,
-					},
-				}
-			case 'assignee':
-				return {
-					...baseQuery,
-					filter: {
-						assignee: this.selector.value as string,
-					},
-				}
+			case 'name':
+				return task.name === this.selector.value
+			case 'formKey':
+				return task.formKey === this.selector.value
 			case 'custom':
-				// Return base query to fetch all tasks for filtering
-				return baseQuery
+				return (this.selector.value as (task: UserTask) => boolean)(task)
 			default:
-				return null
+				return true
+		}
+	}
+}
+
+function isSameDate(
+	actual: string | undefined,
+	expected: Date | string
+): boolean {
+	return (
+		actual !== undefined &&
+		new Date(actual).getTime() === new Date(expected).getTime()
+	)
+}
+
+function toIsoString(date: Date | string): string {
+	return new Date(date).toISOString()
+}
+
+/**
+ * Explains common REST API errors of user task operations.
+ */
+function toUserTaskError(
+	operation: string,
+	error: unknown,
+	requirement: string
+): unknown {
+	if (error instanceof Error) {
+		if (error.message.includes('400')) {
+			return new Error(
+				`Cannot ${operation} user task: ${error.message}. ${requirement}`
+			)
+		}
+		if (error.message.includes('403')) {
+			return new Error(
+				`Cannot ${operation} user task: Permission denied. ${error.message}`
+			)
+		}
+		if (error.message.includes('404')) {
+			return new Error(
+				`Cannot ${operation} user task: Task not found. ${error.message}`
+			)
 		}
 	}
+	return error
 }
@@ -0,0 +1,173 @@
+/**
+ * A Jest asymmetric matcher such as expect.any(String) or
+ * expect.objectContaining({...}), detected by its asymmetricMatch method.
+ */
+interface AsymmetricMatcher {
+	asymmetricMatch(actual: unknown): boolean
+	toAsymmetricMatcher?(): string
+	toString(): string
+}
+
+/**
+ * Result of reading a variable path. `found` distinguishes a missing
+ * value from a value that is present but undefined or null.
+ */
+export interface VariablePathResult {
+	found: boolean
+	value: unknown
+}
+
+/**
+ * Comparison engine shared by the variable and result assertions.
+ * Supports deep equality, partial matching and Jest asymmetric matchers
+ * at any nesting level, and reading nested values by path.
+ */
+export class VariableMatchers {
+	/**
+	 * Deep equality. Objects must have the same keys and arrays the same
+	 * length. Asymmetric matchers in the expected value are applied to the
+	 * actual value at the same position.
+	 */
+	static matches(actual: unknown, expected: unknown): boolean {
+		if (isAsymmetricMatcher(expected)) {
+			return expected.asymmetricMatch(actual)
+		}
+		if (Array.isArray(expected)) {
+			return (
+				Array.isArray(actual) &&
+				actual.length === expected.length &&
+				expected.every((item, index) =>
+					VariableMatchers.matches(actual[index], item)
+				)
+			)
+		}
+		if (isPlainObject(expected)) {
+			if (!isPlainObject(actual)) {
+				return false
+			}
+			const expectedKeys = Object.keys(expected)
+			return (
+				expectedKeys.length === Object.keys(actual).length &&
+				expectedKeys.every(
+					(key) =>
+						key in actual &&
+						VariableMatchers.matches(actual[key], expected[key])
+				)
+			)
+		}
+		return Object.is(actual, expected)
+	}
+
+	/**
+	 * Partial matching. Objects only need to contain the expected keys,
+	 * recursively; arrays must have the same length with each item
+	 * matched partially. Other values are compared like matches().
+	 */
+	static matchesPartially(actual: unknown, expected: unknown): boolean {
+		if (isAsymmetricMatcher(expected)) {
+			return expected.asymmetricMatch(actual)
+		}
+		if (Array.isArray(expected)) {
+			return (
+				Array.isArray(actual) &&
+				actual.length === expected.length &&
+				expected.every((item, index) =>
+					VariableMatchers.matchesPartially(actual[index], item)
+				)
+			)
+		}
+		if (isPlainObject(expected)) {
+			return (
+				isPlainObject(actual) &&
+				Object.keys(expected).every(
+					(key) =>
+						key in actual &&
+						VariableMatchers.matchesPartially(actual[key], expected[key])
+				)
+			)
+		}
+		return Object.is(actual, expected)
+	}
+
+	/**
+	 * Reads a nested value by a JSONPath-style path such as
+	 * 'order.items[0].sku', "$.order['shipping-address']" or 'total'.
+	 */
+	static readPath(
+		variables: Record<string, unknown>,
+		path: string
+	): VariablePathResult {
+		let current: unknown = variables
+		for (const segment of VariableMatchers.parsePath(path)) {
+			if (Array.isArray(current) && typeof segment === 'number') {
+				if (segment >= current.length) {
+					return { found: false, value: undefined }
+				}
+				current = current[segment]
+			} else if (isPlainObject(current) && String(segment) in current) {
+				current = current[String(segment)]
+			} else {
+				return { found: false, value: undefined }
+			}
+		}
+		return { found: true, value: current }
+	}
+
+	/**
+	 * Splits a path into property names and array indices.
+	 * Throws for malformed paths, so typos fail fast instead of timing out.
+	 */
+	static parsePath(path: string): Array<string | number> {
+		const segmentPattern =
+			/\.?([^.[\]]+)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/y
+		const segments: Array<string | number> = []
+		let position = path.startsWith('$') ? 1 : 0
+		while (position < path.length) {
+			segmentPattern.lastIndex = position
+			const match = segmentPattern.exec(path)
+			if (!match) {
+				throw new Error(
+					`Invalid variable path '${path}' at position ${position}`
+				)
+			}
+			const [, name, index, singleQuoted, doubleQuoted] = match
+			if (index !== undefined) {
+				segments.push(Number(index))
+			} else {
+				segments.push(name ?? singleQuoted ?? doubleQuoted)
+			}
+			position = segmentPattern.lastIndex
+		}
+		if (segments.length === 0) {
+			throw new Error(`Invalid variable path '${path}'`)
+		}
+		return segments
+	}
+
+	/**
+	 * Formats an expected value for failure messages, printing asymmetric
+	 * matchers the way Jest does (e.g. Any<String>).
+	 */
+	static describe(expected: unknown): string {
+		return JSON.stringify(expected, (_key, value) => {
+			if (isAsymmetricMatcher(value)) {
+				return value.toAsymmetricMatcher
+					? value.toAsymmetricMatcher()
+					: value.toString()
+			}
+			return value
+		})
+	}
+}
+
+function isAsymmetricMatcher(value: unknown): value is AsymmetricMatcher {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as AsymmetricMatcher).asymmetricMatch === 'function'
+	)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
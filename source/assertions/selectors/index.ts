@@ -1,7 +1,12 @@
 import {
+	DecisionEvaluation,
 	DecisionInstance,
 	DecisionSelector,
 	ElementSelector,
+	Incident,
+	IncidentSelector,
+	Job,
+	JobSelector,
 	ProcessInstance,
 	ProcessInstanceSelector,
 	UserTask,
@@ -54,23 +59,30 @@ export class ProcessInstanceSelectors {
 
 	/**
 	 * Selects a process instance by its BPMN process ID.
+	 * Fails if several instances match, unless match is 'latest'.
 	 */
-	static byProcessId(processId: string): ProcessInstanceSelector {
-		return { type: 'processId', value: processId }
+	static byProcessId(
+		processId: string,
+		options: { match?: 'only' | 'latest' } = {}
+	): ProcessInstanceSelector {
+		return { type: 'processId', value: processId, ...options }
 	}
 
 	/**
 	 * Selects a process instance using a custom predicate function.
+	 * Fails if several instances match, unless match is 'latest'.
 	 */
 	static byCustom(
-		predicate: (instance: ProcessInstance) => boolean
+		predicate: (instance: ProcessInstance) => boolean,
+		options: { match?: 'only' | 'latest' } = {}
 	): ProcessInstanceSelector {
-		return { type: 'custom', value: predicate }
+		return { type: 'custom', value: predicate, ...options }
 	}
 }
 
 /**
  * User task selectors for targeting user tasks in assertions.
+ * If several user tasks match, the most recently created one is selected.
  */
 export class UserTaskSelectors {
 	/**
@@ -81,24 +93,163 @@ export class UserTaskSelectors {
 	}
 
 	/**
-	 * Selects a user task by its element ID.
+	 * Selects a user task by its element ID, optionally within one process
+	 * instance.
 	 */
-	static byElementId(elementId: string): UserTaskSelector {
-		return { type: 'elementId', value: elementId }
+	static byElementId(
+		elementId: string,
+		processInstanceKey?: string
+	): UserTaskSelector {
+		return { type: 'elementId', value: elementId, processInstanceKey }
 	}
 
 	/**
-	 * Selects a user task by its assignee.
+	 * Selects a user task by its assignee, optionally within one process
+	 * instance.
 	 */
-	static byAssignee(assignee: string): UserTaskSelector {
-		return { type: 'assignee', value: assignee }
+	static byAssignee(
+		assignee: string,
+		processInstanceKey?: string
+	): UserTaskSelector {
+		return { type: 'assignee', value: assignee, processInstanceKey }
 	}
 
 	/**
-	 * Selects a user task using a custom predicate function.
+	 * Selects a user task by one of its candidate users, optionally within
+	 * one process instance.
 	 */
-	static byCustom(predicate: (task: UserTask) => boolean): UserTaskSelector {
-		return { type: 'custom', value: predicate }
+	static byCandidateUser(
+		candidateUser: string,
+		processInstanceKey?: string
+	): UserTaskSelector {
+		return { type: 'candidateUser', value: candidateUser, processInstanceKey }
+	}
+
+	/**
+	 * Selects a user task by its name, optionally within one process instance.
+	 */
+	static byName(name: string, processInstanceKey?: string): UserTaskSelector {
+		return { type: 'name', value: name, processInstanceKey }
+	}
+
+	/**
+	 * Selects a user task by its form key, optionally within one process
+	 * instance.
+	 */
+	static byFormKey(
+		formKey: string,
+		processInstanceKey?: string
+	): UserTaskSelector {
+		return { type: 'formKey', value: formKey, processInstanceKey }
+	}
+
+	/**
+	 * Selects a user task using a custom predicate function, optionally
+	 * within one process instance.
+	 */
+	static byCustom(
+		predicate: (task: UserTask) => boolean,
+		processInstanceKey?: string
+	): UserTaskSelector {
+		return { type: 'custom', value: predicate, processInstanceKey }
+	}
+}
+
+/**
+ * Job selectors for targeting jobs in assertions.
+ * If several jobs match, the most recently created one is selected.
+ */
+export class JobSelectors {
+	/**
+	 * Selects a job by its key.
+	 */
+	static byKey(key: string): JobSelector {
+		return { type: 'key', value: key }
+	}
+
+	/**
+	 * Selects a job by its job type, optionally within one process instance.
+	 */
+	static byType(type: string, processInstanceKey?: string): JobSelector {
+		return { type: 'type', value: type, processInstanceKey }
+	}
+
+	/**
+	 * Selects a job by the BPMN element that created it, optionally within
+	 * one process instance.
+	 */
+	static byElementId(
+		elementId: string,
+		processInstanceKey?: string
+	): JobSelector {
+		return { type: 'elementId', value: elementId, processInstanceKey }
+	}
+
+	/**
+	 * Selects a job by the process instance it belongs to.
+	 */
+	static byProcessInstanceKey(processInstanceKey: string): JobSelector {
+		return { type: 'processInstanceKey', value: processInstanceKey }
+	}
+
+	/**
+	 * Selects a job using a custom predicate function, optionally within one
+	 * process instance.
+	 */
+	static byCustom(
+		predicate: (job: Job) => boolean,
+		processInstanceKey?: string
+	): JobSelector {
+		return { type: 'custom', value: predicate, processInstanceKey }
+	}
+}
+
+/**
+ * Incident selectors for targeting incidents in assertions.
+ * If several incidents match, the most recently created one is selected.
+ */
+export class IncidentSelectors {
+	/**
+	 * Selects an incident by its key.
+	 */
+	static byKey(key: string): IncidentSelector {
+		return { type: 'key', value: key }
+	}
+
+	/**
+	 * Selects an incident by the BPMN element it was raised on, optionally
+	 * within one process instance.
+	 */
+	static byElementId(
+		elementId: string,
+		processInstanceKey?: string
+	): IncidentSelector {
+		return { type: 'elementId', value: elementId, processInstanceKey }
+	}
+
+	/**
+	 * Selects an incident by the job it was raised for.
+	 */
+	static byJobKey(jobKey: string): IncidentSelector {
+		return { type: 'jobKey', value: jobKey }
+	}
+
+	/**
+	 * Selects an incident by the process instance it belongs to.
+	 */
+	static byProcessInstanceKey(processInstanceKey: string): IncidentSelector {
+		return { type: 'processInstanceKey', value: processInstanceKey }
+	}
+
+	/**
+	 * Selects an incident using a custom predicate function, optionally
+	 * within one process instance.
+	 */
+	static byCustom(
+		predicate: (incident: Incident) => boolean,
+		processInstanceKey?: string
+	): IncidentSelector {
+		return { type: 'custom', value: predicate, processInstanceKey }
 	}
 }
 
@@ -136,8 +287,23 @@ export class DecisionSelectors {
 		return { type: 'custom', value: predicate }
 	}
 
+	/**
+	 * Selects the evaluated decision of a standalone evaluation, as returned
+	 * by context.evaluateDecision().
+	 */
+	static byEvaluation(evaluation: DecisionEvaluation): DecisionSelector {
+		return {
+			type: 'key',
+			// decisionInstanceKey is the deprecated name of decisionEvaluationKey
+			value: evaluation.decisionEvaluationKey || evaluation.decisionInstanceKey,
+			decisionId: evaluation.decisionDefinitionId,
+		}
+	}
+
 	/**
 	 * Selects a decision instance from an evaluate decision response.
+	 * @deprecated Use byEvaluation(), or pass the result of
+	 * context.evaluateDecision() to CamundaAssert.assertThatDecision().
 	 */
 	static byResponse(response: Record<string, unknown>): DecisionSelector {
 		return {
@@ -151,6 +317,8 @@ export class DecisionSelectors {
 export {
 	DecisionSelector,
 	ElementSelector,
+	IncidentSelector,
+	JobSelector,
 	ProcessInstanceSelector,
 	UserTaskSelector,
 }
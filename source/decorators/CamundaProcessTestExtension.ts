@@ -1,7 +1,16 @@
+import path from 'path'
+
 import { Camunda8 } from '@camunda8/sdk'
 import Debug from 'debug'
 
 import { CamundaAssert } from '../assertions/CamundaAssert'
+import { CamundaConfigurationDiscovery } from '../runtime/CamundaConfigurationDiscovery'
+import { CamundaCoverageReporter } from '../runtime/CamundaCoverageReporter'
+import {
+	CamundaProcessCoverage,
+	CoverageReport,
+	CoverageThresholds,
+} from '../runtime/CamundaProcessCoverage'
 import { CamundaProcessTestContext } from '../runtime/CamundaProcessTestContext'
 import { CamundaProcessTestRuntime } from '../runtime/CamundaProcessTestRuntime'
 import { ContainerRuntimePropertiesUtil } from '../runtime/CamundaRuntimeProperties'
@@ -19,6 +28,7 @@ export class CamundaProcessTestExtension {
 	private runtime?: CamundaProcessTestRuntime
 	private client?: Camunda8
 	private context?: CamundaProcessTestContext
+	private runtimeConfig?: CamundaRuntimeConfiguration
 
 	async beforeAll(): Promise<void> {
 		debug('🏗️ Setting up Camunda Process Test environment...')
@@ -26,6 +36,7 @@ export class CamundaProcessTestExtension {
 		// Validate Jest timeout if in Jest environment and using MANAGED mode
 		const runtimeConfig: CamundaRuntimeConfiguration =
 			ContainerRuntimePropertiesUtil.readProperties()
+		this.runtimeConfig = runtimeConfig
 
 		// Initialize runtime
 		log('🚀 Initializing Camunda runtime...')
@@ -70,6 +81,9 @@ export class CamundaProcessTestExtension {
 	async afterAll(): Promise<void> {
 		log('🏁 Tearing down Camunda Process Test environment...')
 
+		// Collect process coverage while the runtime is still available
+		const coverageFailure = await this.processCoverage()
+
 		// Reset assertions
 		debug('🔄 Resetting assertions...')
 		CamundaAssert.reset()
@@ -85,6 +99,112 @@ export class CamundaProcessTestExtension {
 		}
 
 		log('✅ Camunda Process Test environment torn down successfully')
+
+		// Fail the suite once the environment is torn down
+		if (coverageFailure) {
+			throw new Error(coverageFailure)
+		}
+	}
+
+	/**
+	 * Computes the coverage of the processes deployed in this suite, writes
+	 * the JSON and HTML reports if a report directory is configured, and
+	 * checks the configured coverage thresholds. Report failures are logged;
+	 * when thresholds are configured, coverage that cannot be collected fails
+	 * the suite.
+	 *
+	 * @returns A description of why the suite fails, if it does
+	 */
+	private async processCoverage(): Promise<string | undefined> {
+		const coverage = this.context?.getCoverage()
+		const directory = this.runtimeConfig?.coverageReportDirectory
+		const thresholds: CoverageThresholds = {
+			global: this.runtimeConfig?.coverageThreshold,
+			overall: this.runtimeConfig?.overallCoverageThreshold,
+			processes:
+				CamundaConfigurationDiscovery.resolveConfiguration()
+					.processCoverageThresholds,
+		}
+		const enforceThresholds = CamundaProcessCoverage.hasThresholds(thresholds)
+		if (
+			!this.context ||
+			!coverage?.hasTrackedProcesses() ||
+			(!directory && !enforceThresholds)
+		) {
+			debug('📭 No deployed processes or coverage settings, skipping coverage')
+			return undefined
+		}
+
+		let report: CoverageReport
+		try {
+			debug('📊 Collecting process coverage...')
+			report = await coverage.collect(
+				this.context.getClient().getCamundaRestClient(),
+				this.getSuiteName()
+			)
+		} catch (error) {
+			if (enforceThresholds) {
+				return `Process coverage could not be collected to check the configured thresholds: ${error}`
+			}
+			log('⚠️ Failed to collect process coverage: %s', error)
+			return undefined
+		}
+
+		if (directory) {
+			this.writeCoverageReport(report, directory, coverage)
+		} else {
+			log('📊 Process coverage: %s%%', (report.coverage * 100).toFixed(1))
+		}
+
+		const violations = CamundaProcessCoverage.checkThresholds(
+			report,
+			thresholds
+		)
+		if (violations.length === 0) {
+			return undefined
+		}
+		return `Process coverage below threshold:\n${violations
+			.map(
+				(violation) =>
+					`  - ${violation.processDefinitionId ?? 'all processes'}: ${violation.actual}% < ${violation.threshold}%`
+			)
+			.join('\n')}`
+	}
+
+	/**
+	 * Writes the JSON and HTML coverage reports. Failures are logged and do
+	 * not fail the suite.
+	 */
+	private writeCoverageReport(
+		report: CoverageReport,
+		directory: string,
+		coverage: CamundaProcessCoverage
+	): void {
+		try {
+			const { html } = CamundaCoverageReporter.writeReport(
+				report,
+				directory,
+				(processDefinitionId) => coverage.getProcessXml(processDefinitionId)
+			)
+			log(
+				'📊 Process coverage: %s%% (report: %s)',
+				(report.coverage * 100).toFixed(1),
+				html
+			)
+		} catch (error) {
+			log('⚠️ Failed to write process coverage report: %s', error)
+		}
+	}
+
+	/**
+	 * Derives the report name from the Jest test file, so each suite gets its own report.
+	 */
+	private getSuiteName(): string {
+		const testPath =
+			typeof expect !== 'undefined' ? expect.getState().testPath : undefined
+		return testPath
+			? path.basename(testPath).replace(/\.(test|spec)\.[jt]sx?$/, '')
+			: 'camunda-process-test'
 	}
 
 	getClient(): Camunda8 {
@@ -7,13 +7,20 @@
 
 export * from './assertions/CamundaAssert'
 export * from './assertions/DecisionInstanceAssert'
+export * from './assertions/FormValidator'
+export * from './assertions/IncidentAssert'
+export * from './assertions/JobAssert'
 export * from './assertions/ProcessInstanceAssert'
 export * from './assertions/selectors'
 export * from './assertions/UserTaskAssert'
+export * from './assertions/VariableMatchers'
 export * from './decorators/CamundaProcessTest'
 export * from './runtime/CamundaClock'
 export * from './runtime/CamundaConfigurationDiscovery'
+export * from './runtime/CamundaCoverageReporter'
+export * from './runtime/CamundaProcessCoverage'
 export * from './runtime/CamundaProcessTestContext'
 export * from './runtime/CamundaProcessTestRuntime'
+export * from './runtime/DecisionTableFixture'
 export * from './runtime/JobWorkerMock'
 export * from './types'
@@ -0,0 +1,141 @@
+import fs from 'fs'
+import path from 'path'
+
+import Debug from 'debug'
+
+import type { CoverageReport } from './CamundaProcessCoverage'
+
+const debug = Debug('camunda:test:coverage')
+
+const BPMN_VIEWER_SCRIPT =
+	'https://unpkg.com/bpmn-js@17.11.1/dist/bpmn-navigated-viewer.production.min.js'
+
+/**
+ * Writes process coverage reports as JSON and as HTML with highlighted BPMN diagrams.
+ */
+export class CamundaCoverageReporter {
+	/**
+	 * Writes `<suiteName>.json` and `<suiteName>.html` into the report directory.
+	 *
+	 * @param report The coverage report to write
+	 * @param directory The report directory, created if it does not exist
+	 * @param getProcessXml Resolves the BPMN XML of a process for the diagram view
+	 * @returns The paths of the written files
+	 */
+	static writeReport(
+		report: CoverageReport,
+		directory: string,
+		getProcessXml: (processDefinitionId: string) => string | undefined
+	): { json: string; html: string } {
+		fs.mkdirSync(directory, { recursive: true })
+
+		const fileName = report.suiteName.replace(/[^\w.-]+/g, '_')
+		const json = path.join(directory, `${fileName}.json`)
+		const html = path.join(directory, `${fileName}.html`)
+
+		fs.writeFileSync(json, JSON.stringify(report, null, 2))
+		fs.writeFileSync(
+			html,
+			CamundaCoverageReporter.renderHtml(report, getProcessXml)
+		)
+
+		debug('📄 Coverage report written to %s and %s', json, html)
+		return { json, html }
+	}
+
+	/**
+	 * Renders the HTML report. Diagrams are rendered in the browser with bpmn-js.
+	 */
+	static renderHtml(
+		report: CoverageReport,
+		getProcessXml: (processDefinitionId: string) => string | undefined
+	): string {
+		const diagrams = report.processes.map((process, index) => ({
+			container: `diagram-${index}`,
+			xml: getProcessXml(process.processDefinitionId) ?? '',
+			completedElements: process.completedElements,
+			takenSequenceFlows: process.takenSequenceFlows,
+		}))
+
+		const rows = report.processes
+			.map(
+				(process) => `
+			<tr>
+				<td>${escapeHtml(process.processDefinitionId)}</td>
+				<td>${escapeHtml(process.resourceName)}</td>
+				<td>${process.completedElements.length} / ${process.totalElements}</td>
+				<td>${process.takenSequenceFlows.length} / ${process.totalSequenceFlows}</td>
+				<td>${formatPercentage(process.coverage)}</td>
+			</tr>`
+			)
+			.join('')
+
+		const sections = report.processes
+			.map(
+				(process, index) => `
+		<section>
+			<h2>${escapeHtml(process.processDefinitionId)} &mdash; ${formatPercentage(process.coverage)}</h2>
+			<div class="diagram" id="diagram-${index}"></div>
+		</section>`
+			)
+			.join('')
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="utf-8" />
+	<title>Process coverage: ${escapeHtml(report.suiteName)}</title>
+	<style>
+		body { font-family: sans-serif; margin: 2em; }
+		table { border-collapse: collapse; }
+		th, td { border: 1px solid #ccc; padding: 0.4em 0.8em; text-align: left; }
+		.diagram { height: 480px; border: 1px solid #ccc; }
+		.covered:not(.djs-connection) .djs-visual > :nth-child(1) { stroke: #10ad73 !important; fill: #e6f7ef !important; }
+		.covered.djs-connection .djs-visual > path { stroke: #10ad73 !important; }
+	</style>
+	<script src="${BPMN_VIEWER_SCRIPT}"></script>
+</head>
+<body>
+	<h1>Process coverage: ${escapeHtml(report.suiteName)}</h1>
+	<p>Generated ${escapeHtml(report.generatedAt)} &mdash; total coverage ${formatPercentage(report.coverage)}</p>
+	<table>
+		<thead>
+			<tr><th>Process</th><th>Resource</th><th>Elements</th><th>Sequence flows</th><th>Coverage</th></tr>
+		</thead>
+		<tbody>${rows}
+		</tbody>
+	</table>${sections}
+	<script>
+		const diagrams = ${toScriptJson(diagrams)};
+		diagrams.forEach(async (diagram) => {
+			const viewer = new BpmnJS({ container: '#' + diagram.container });
+			await viewer.importXML(diagram.xml);
+			const canvas = viewer.get('canvas');
+			canvas.zoom('fit-viewport');
+			diagram.completedElements
+				.concat(diagram.takenSequenceFlows)
+				.forEach((id) => canvas.addMarker(id, 'covered'));
+		});
+	</script>
+</body>
+</html>
+`
+	}
+}
+
+function formatPercentage(ratio: number): string {
+	return `${(ratio * 100).toFixed(1)}%`
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
+
+function toScriptJson(value: unknown): string {
+	// Prevent the embedded BPMN from closing the script element
+	return JSON.stringify(value).replace(/</g, '\\u003c')
+}
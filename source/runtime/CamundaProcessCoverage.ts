@@ -0,0 +1,534 @@
+import fs from 'fs'
+import path from 'path'
+
+import type { CamundaRestApiTypes, CamundaRestClient } from '@camunda8/sdk'
+import Debug from 'debug'
+
+import { SearchPagination } from './SearchPagination'
+
+const debug = Debug('camunda:test:coverage')
+
+/**
+ * BPMN element types that are counted as flow nodes for coverage.
+ */
+const FLOW_NODE_TYPES = [
+	'startEvent',
+	'endEvent',
+	'intermediateCatchEvent',
+	'intermediateThrowEvent',
+	'boundaryEvent',
+	'task',
+	'serviceTask',
+	'userTask',
+	'scriptTask',
+	'businessRuleTask',
+	'sendTask',
+	'receiveTask',
+	'manualTask',
+	'callActivity',
+	'subProcess',
+	'adHocSubProcess',
+	'transaction',
+	'exclusiveGateway',
+	'parallelGateway',
+	'inclusiveGateway',
+	'eventBasedGateway',
+	'complexGateway',
+]
+
+export interface BpmnElement {
+	id: string
+	name?: string
+	type: string
+	/** Activity a boundary event is attached to */
+	attachedToRef?: string
+	/** Name of the signal a signal event catches or throws */
+	signalName?: string
+}
+
+export interface BpmnSequenceFlow {
+	id: string
+	name?: string
+	sourceRef: string
+	targetRef: string
+}
+
+export interface BpmnProcessModel {
+	processDefinitionId: string
+	name?: string
+	elements: BpmnElement[]
+	sequenceFlows: BpmnSequenceFlow[]
+}
+
+/**
+ * Coverage of a single BPMN process, aggregated over all tracked process instances.
+ */
+export interface ProcessCoverage {
+	processDefinitionId: string
+	processDefinitionKeys: string[]
+	resourceName: string
+	totalElements: number
+	completedElements: string[]
+	totalSequenceFlows: number
+	takenSequenceFlows: string[]
+	/** Ratio of completed elements and taken sequence flows, between 0 and 1 */
+	coverage: number
+}
+
+export interface CoverageReport {
+	suiteName: string
+	generatedAt: string
+	/** Ratio over all deployed processes, between 0 and 1 */
+	coverage: number
+	processes: ProcessCoverage[]
+}
+
+/**
+ * Minimum coverage in percent (0-100).
+ */
+export interface CoverageThresholds {
+	/** Applies to every deployed process without its own threshold */
+	global?: number
+	/** Applies to the coverage of all deployed processes together */
+	overall?: number
+	/** Thresholds per BPMN process id */
+	processes?: Record<string, number>
+}
+
+export interface CoverageThresholdViolation {
+	/** The violating process, or undefined for the overall coverage */
+	processDefinitionId?: string
+	/** Required coverage in percent */
+	threshold: number
+	/** Actual coverage in percent */
+	actual: number
+}
+
+interface DeployedProcess {
+	processDefinitionKeys: Set<string>
+	resourceName: string
+	xml: string
+	model: BpmnProcessModel
+}
+
+interface SequenceFlowsResponse {
+	items: Array<{
+		sequenceFlowId?: string
+		elementId?: string
+		processDefinitionId?: string
+	}>
+}
+
+/**
+ * Tracks deployed BPMN processes and computes element and sequence flow
+ * coverage from the executed instances of their process definitions.
+ */
+export class CamundaProcessCoverage {
+	private deployedProcesses: Map<string, DeployedProcess> = new Map()
+	private processInstanceKeys: Set<string> = new Set()
+
+	/**
+	 * Remembers the process definitions of a deployment, reading the BPMN
+	 * from the deployed resource files.
+	 */
+	trackDeployment(
+		response: CamundaRestApiTypes.DeployResourceResponse,
+		resourcePaths: string[]
+	): void {
+		response.processes?.forEach(
+			(process: {
+				processDefinitionId: string
+				processDefinitionKey: string
+				resourceName: string
+			}) => {
+				const resourcePath = resourcePaths.find(
+					(resource) => path.basename(resource) === process.resourceName
+				)
+				if (!resourcePath || !fs.existsSync(resourcePath)) {
+					debug(
+						'⚠️ Resource file for process %s not found, skipping coverage',
+						process.processDefinitionId
+					)
+					return
+				}
+
+				const xml = fs.readFileSync(resourcePath, 'utf-8')
+				const model = CamundaProcessCoverage.parseBpmn(xml).find(
+					(candidate) =>
+						candidate.processDefinitionId === process.processDefinitionId
+				)
+				if (!model) {
+					debug(
+						'⚠️ Process %s not found in %s',
+						process.processDefinitionId,
+						resourcePath
+					)
+					return
+				}
+
+				const existing = this.deployedProcesses.get(process.processDefinitionId)
+				const processDefinitionKeys =
+					existing?.processDefinitionKeys ?? new Set<string>()
+				processDefinitionKeys.add(process.processDefinitionKey)
+
+				this.deployedProcesses.set(process.processDefinitionId, {
+					processDefinitionKeys,
+					resourceName: process.resourceName,
+					xml,
+					model,
+				})
+				debug(
+					'📝 Tracked process for coverage: %s (%s)',
+					process.processDefinitionId,
+					process.processDefinitionKey
+				)
+			}
+		)
+	}
+
+	/**
+	 * Remembers a process instance of the suite whose execution, and that of
+	 * its child instances, contributes to coverage.
+	 */
+	trackProcessInstance(processInstanceKey: string): void {
+		this.processInstanceKeys.add(processInstanceKey)
+	}
+
+	/**
+	 * Whether any process definition has been deployed through the context.
+	 */
+	hasTrackedProcesses(): boolean {
+		return this.deployedProcesses.size > 0
+	}
+
+	/**
+	 * Gets the keys of the tracked process definitions, optionally only
+	 * those of one process.
+	 */
+	getProcessDefinitionKeys(processDefinitionId?: string): string[] {
+		const deployed =
+			processDefinitionId === undefined
+				? [...this.deployedProcesses.values()]
+				: [this.deployedProcesses.get(processDefinitionId)]
+		return deployed.flatMap((process) => [
+			...(process?.processDefinitionKeys ?? []),
+		])
+	}
+
+	/**
+	 * Gets the BPMN XML of a tracked process definition.
+	 */
+	getProcessXml(processDefinitionId: string): string | undefined {
+		return this.deployedProcesses.get(processDefinitionId)?.xml
+	}
+
+	/**
+	 * Queries the completed element instances and taken sequence flows of the
+	 * tracked process instances and their child instances, and computes the
+	 * coverage of each deployed process. Instances that the suite did not
+	 * start, such as those of other suites on a shared runtime, do not count.
+	 * Fails if a query fails.
+	 */
+	async collect(
+		client: CamundaRestClient,
+		suiteName: string
+	): Promise<CoverageReport> {
+		const completedElements = new Map<string, Set<string>>()
+		const takenSequenceFlows = new Map<string, Set<string>>()
+		const collectFor = (
+			target: Map<string, Set<string>>,
+			processDefinitionId: string | undefined,
+			id: string | undefined
+		) => {
+			if (!processDefinitionId || !id) {
+				return
+			}
+			const ids = target.get(processDefinitionId) ?? new Set<string>()
+			ids.add(id)
+			target.set(processDefinitionId, ids)
+		}
+
+		// Include the instances started by call activities, down to any depth:
+		// a set's iteration also visits the keys added while iterating
+		const processInstanceKeys = new Set(this.processInstanceKeys)
+		for (const parentProcessInstanceKey of processInstanceKeys) {
+			const children = await SearchPagination.searchAllPages((page) =>
+				client.searchProcessInstances({
+					filter: { parentProcessInstanceKey },
+					sort: [{ field: 'processInstanceKey', order: 'ASC' }],
+					page,
+				})
+			)
+			children.forEach((child) =>
+				processInstanceKeys.add(child.processInstanceKey)
+			)
+		}
+
+		for (const processInstanceKey of processInstanceKeys) {
+			const elementInstances = await SearchPagination.searchAllPages((page) =>
+				client.searchElementInstances({
+					filter: { processInstanceKey, state: 'COMPLETED' },
+					sort: [{ field: 'elementInstanceKey', order: 'ASC' }],
+					page,
+				})
+			)
+			elementInstances.forEach((element) =>
+				collectFor(
+					completedElements,
+					element.processDefinitionId,
+					element.elementId
+				)
+			)
+		}
+
+		debug(
+			'📊 Collecting sequence flows of %d process instances',
+			processInstanceKeys.size
+		)
+
+		for (const processInstanceKey of processInstanceKeys) {
+			const sequenceFlows = await client.callApiEndpoint<
+				never,
+				SequenceFlowsResponse
+			>({
+				method: 'GET',
+				urlPath: `process-instances/${processInstanceKey}/sequence-flows`,
+			})
+			sequenceFlows.items.forEach((flow) => {
+				collectFor(takenSequenceFlows, flow.processDefinitionId, flow.elementId)
+				collectFor(
+					takenSequenceFlows,
+					flow.processDefinitionId,
+					flow.sequenceFlowId
+				)
+			})
+		}
+
+		const processes = [...this.deployedProcesses.entries()].map(
+			([processDefinitionId, deployed]) =>
+				CamundaProcessCoverage.calculateCoverage(
+					deployed.model,
+					completedElements.get(processDefinitionId) ?? new Set(),
+					takenSequenceFlows.get(processDefinitionId) ?? new Set(),
+					{
+						processDefinitionKeys: [...deployed.processDefinitionKeys],
+						resourceName: deployed.resourceName,
+					}
+				)
+		)
+
+		return {
+			suiteName,
+			generatedAt: new Date().toISOString(),
+			coverage: CamundaProcessCoverage.aggregateCoverage(processes),
+			processes,
+		}
+	}
+
+	/**
+	 * Computes the coverage of a process model from the executed element and sequence flow ids.
+	 * Ids that are not part of the model are ignored.
+	 */
+	static calculateCoverage(
+		model: BpmnProcessModel,
+		completedElementIds: Iterable<string>,
+		takenSequenceFlowIds: Iterable<string>,
+		metadata: { processDefinitionKeys?: string[]; resourceName?: string } = {}
+	): ProcessCoverage {
+		const completed = new Set(completedElementIds)
+		const taken = new Set(takenSequenceFlowIds)
+
+		const completedElements = model.elements
+			.map((element) => element.id)
+			.filter((id) => completed.has(id))
+		const takenSequenceFlows = model.sequenceFlows
+			.map((flow) => flow.id)
+			.filter((id) => taken.has(id))
+
+		const total = model.elements.length + model.sequenceFlows.length
+		const covered = completedElements.length + takenSequenceFlows.length
+
+		return {
+			processDefinitionId: model.processDefinitionId,
+			processDefinitionKeys: metadata.processDefinitionKeys ?? [],
+			resourceName: metadata.resourceName ?? '',
+			totalElements: model.elements.length,
+			completedElements,
+			totalSequenceFlows: model.sequenceFlows.length,
+			takenSequenceFlows,
+			coverage: total === 0 ? 0 : covered / total,
+		}
+	}
+
+	/**
+	 * Computes the overall coverage of several processes, weighted by their size.
+	 */
+	static aggregateCoverage(processes: ProcessCoverage[]): number {
+		const total = processes.reduce(
+			(sum, process) =>
+				sum + process.totalElements + process.totalSequenceFlows,
+			0
+		)
+		const covered = processes.reduce(
+			(sum, process) =>
+				sum +
+				process.completedElements.length +
+				process.takenSequenceFlows.length,
+			0
+		)
+		return total === 0 ? 0 : covered / total
+	}
+
+	/**
+	 * Whether any minimum coverage is configured.
+	 */
+	static hasThresholds(thresholds: CoverageThresholds): boolean {
+		return (
+			(thresholds.global ?? 0) > 0 ||
+			(thresholds.overall ?? 0) > 0 ||
+			Object.keys(thresholds.processes ?? {}).length > 0
+		)
+	}
+
+	/**
+	 * Returns the processes of a report whose coverage is below their threshold.
+	 * A process-specific threshold takes precedence over the global one. The
+	 * overall coverage is checked against the overall threshold only, and
+	 * reported without a process id if it is below.
+	 */
+	static checkThresholds(
+		report: CoverageReport,
+		thresholds: CoverageThresholds
+	): CoverageThresholdViolation[] {
+		const violations: CoverageThresholdViolation[] = report.processes
+			.map((process) => ({
+				processDefinitionId: process.processDefinitionId,
+				threshold:
+					thresholds.processes?.[process.processDefinitionId] ??
+					thresholds.global ??
+					0,
+				actual: toPercent(process.coverage),
+			}))
+			.filter((result) => result.actual < result.threshold)
+
+		const overall = thresholds.overall ?? 0
+		if (toPercent(report.coverage) < overall) {
+			violations.push({
+				threshold: overall,
+				actual: toPercent(report.coverage),
+			})
+		}
+		return violations
+	}
+
+	/**
+	 * Extracts the flow nodes and sequence flows of every process in a BPMN document.
+	 */
+	static parseBpmn(xml: string): BpmnProcessModel[] {
+		const processPattern =
+			/<((?:[\w-]+:)?)process\b([^>]*[^/])?>([\s\S]*?)<\/\1process>/g
+		const flowNodePattern = new RegExp(
+			`<(?:[\\w-]+:)?(${FLOW_NODE_TYPES.join('|')})\\b([^>]*)>`,
+			'g'
+		)
+		const sequenceFlowPattern = /<(?:[\w-]+:)?sequenceFlow\b([^>]*)>/g
+		const eventPattern =
+			/<((?:[\w-]+:)?)(startEvent|intermediateCatchEvent|intermediateThrowEvent|boundaryEvent|endEvent)\b([^>]*[^/])>([\s\S]*?)<\/\1\2>/g
+		const signalRefPattern =
+			/<(?:[\w-]+:)?signalEventDefinition\b[^>]*\ssignalRef="([^"]*)"/
+
+		const signalNames = new Map<string, string>()
+		for (const [, attributes] of findAll(
+			/<(?:[\w-]+:)?signal\b([^>]*)>/g,
+			xml
+		)) {
+			const id = readAttribute(attributes, 'id')
+			const name = readAttribute(attributes, 'name')
+			if (id && name !== undefined) {
+				signalNames.set(id, name)
+			}
+		}
+
+		const models: BpmnProcessModel[] = []
+		for (const [, , processAttributes = '', body] of findAll(
+			processPattern,
+			xml
+		)) {
+			const processDefinitionId = readAttribute(processAttributes, 'id')
+			if (!processDefinitionId) {
+				continue
+			}
+
+			const signalRefs = new Map<string, string>()
+			for (const [, , , attributes, eventBody] of findAll(eventPattern, body)) {
+				const id = readAttribute(attributes, 'id')
+				const signalRef = signalRefPattern.exec(eventBody)?.[1]
+				if (id && signalRef) {
+					signalRefs.set(id, signalRef)
+				}
+			}
+
+			const elements: BpmnElement[] = []
+			for (const [, type, attributes] of findAll(flowNodePattern, body)) {
+				const id = readAttribute(attributes, 'id')
+				if (!id) {
+					continue
+				}
+				const element: BpmnElement = {
+					id,
+					name: readAttribute(attributes, 'name'),
+					type,
+				}
+				const attachedToRef = readAttribute(attributes, 'attachedToRef')
+				if (attachedToRef) {
+					element.attachedToRef = attachedToRef
+				}
+				const signalRef = signalRefs.get(id)
+				if (signalRef) {
+					element.signalName = signalNames.get(signalRef) ?? signalRef
+				}
+				elements.push(element)
+			}
+
+			const sequenceFlows: BpmnSequenceFlow[] = []
+			for (const [, attributes] of findAll(sequenceFlowPattern, body)) {
+				const id = readAttribute(attributes, 'id')
+				if (id) {
+					sequenceFlows.push({
+						id,
+						name: readAttribute(attributes, 'name'),
+						sourceRef: readAttribute(attributes, 'sourceRef') ?? '',
+						targetRef: readAttribute(attributes, 'targetRef') ?? '',
+					})
+				}
+			}
+
+			models.push({
+				processDefinitionId,
+				name: readAttribute(processAttributes, 'name'),
+				elements,
+				sequenceFlows,
+			})
+		}
+		return models
+	}
+}
+
+function toPercent(ratio: number): number {
+	return Math.round(ratio * 10000) / 100
+}
+
+function findAll(pattern: RegExp, text: string): RegExpExecArray[] {
+	const matches: RegExpExecArray[] = []
+	pattern.lastIndex = 0
+	let match: RegExpExecArray | null
+	while ((match = pattern.exec(text)) !== null) {
+		matches.push(match)
+	}
+	return matches
+}
+
+function readAttribute(attributes: string, name: string): string | undefined {
+	const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes)
+	return match?.[1]
+}
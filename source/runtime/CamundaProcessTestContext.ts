@@ -6,8 +6,12 @@ import type {
 import { Camunda8, Dto, PollingOperation } from '@camunda8/sdk'
 import Debug from 'debug'
 
+import { DecisionEvaluation } from '../types'
+
 import { CamundaClock } from './CamundaClock'
+import { CamundaProcessCoverage } from './CamundaProcessCoverage'
 import { CamundaProcessTestRuntime } from './CamundaProcessTestRuntime'
+import { DecisionTableFixture, DecisionTableRow } from './DecisionTableFixture'
 import { JobWorkerMock } from './JobWorkerMock'
 
 const debug = Debug('camunda:test:context')
@@ -19,6 +23,9 @@ logCleanup.enabled = true
 const clockWarn = Debug('camunda:test:clock')
 clockWarn.enabled = true
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Variables = Record<string, any>
+
 interface TrackedResource {
 	filePath: string
 	key: string
@@ -40,6 +47,9 @@ export class CamundaProcessTestContext {
 	private trackedResourceKeys: Set<string> = new Set()
 	private trackedResources: TrackedResource[] = []
 	private trackedProcessInstances: Set<string> = new Set()
+	private earlierProcessInstances: Set<string> = new Set()
+	private evaluatedDecisionKeys: string[] = []
+	private coverage: CamundaProcessCoverage = new CamundaProcessCoverage()
 	private camunda: CamundaRestClient
 
 	constructor(
@@ -65,6 +75,30 @@ export class CamundaProcessTestContext {
 		return this.client
 	}
 
+	/**
+	 * Gets the process coverage tracker. Coverage is collected over all tests
+	 * in the suite and is not reset between tests.
+	 */
+	getCoverage(): CamundaProcessCoverage {
+		return this.coverage
+	}
+
+	/**
+	 * Gets the keys of the process definitions deployed through the context,
+	 * optionally only those of one process.
+	 */
+	getDeployedProcessDefinitionKeys(processDefinitionId?: string): string[] {
+		return this.coverage.getProcessDefinitionKeys(processDefinitionId)
+	}
+
+	/**
+	 * Whether a process instance was created through the context in an
+	 * earlier test of the suite.
+	 */
+	isProcessInstanceOfEarlierTest(processInstanceKey: string): boolean {
+		return this.earlierProcessInstances.has(processInstanceKey)
+	}
+
 	/**
 	 * Gets the gateway address for the Camunda runtime.
 	 */
@@ -101,6 +135,9 @@ export class CamundaProcessTestContext {
 		// Validate deployment results
 		this.validateDeploymentResponse(response, resourcePaths)
 
+		// Remember deployed processes for the coverage report
+		this.coverage.trackDeployment(response, resourcePaths)
+
 		// Track resources if auto-delete is requested
 		if (shouldAutoDelete) {
 			this.trackDeployedResources(response, resourcePaths)
@@ -152,6 +189,7 @@ export class CamundaProcessTestContext {
 	private trackProcessInstance(response: { processInstanceKey?: string }) {
 		if (response.processInstanceKey) {
 			this.trackedProcessInstances.add(response.processInstanceKey)
+			this.coverage.trackProcessInstance(response.processInstanceKey)
 			debugDeploy(
 				'📝 Tracked process instance: %s',
 				response.processInstanceKey
@@ -334,6 +372,186 @@ export class CamundaProcessTestContext {
 		return worker
 	}
 
+	/**
+	 * Publishes a message and waits until it is correlated to a process instance.
+	 * Fails if no open subscription matches the message name and correlation key.
+	 *
+	 * @param name The message name, as defined in the BPMN model
+	 * @param correlationKey The value matched against the subscription's correlation key
+	 * @param variables Variables to pass with the message
+	 * @returns The correlation response, including the correlated process instance key
+	 */
+	async correlateMessage(
+		name: string,
+		correlationKey: string,
+		variables: Variables = {}
+	) {
+		debug(`Correlating message '${name}' with key '${correlationKey}'`)
+		const response = await this.camunda.correlateMessage({
+			name,
+			correlationKey,
+			variables,
+		})
+		// The message may have started a new process instance
+		if (response.processInstanceKey) {
+			this.coverage.trackProcessInstance(response.processInstanceKey)
+		}
+		return response
+	}
+
+	/**
+	 * Publishes a message without waiting for correlation.
+	 * With a time to live, the message is buffered and correlates with
+	 * subscriptions opened later, otherwise only with already open ones.
+	 *
+	 * @param name The message name, as defined in the BPMN model
+	 * @param correlationKey The value matched against the subscription's correlation key
+	 * @param options Variables, time to live in milliseconds and an optional unique message id
+	 * @returns The publish response with the message key
+	 */
+	async publishMessage(
+		name: string,
+		correlationKey: string,
+		options: {
+			variables?: Variables
+			timeToLive?: number
+			messageId?: string
+		} = {}
+	) {
+		debug(
+			`Publishing message '${name}' with key '${correlationKey}' (TTL: ${options.timeToLive ?? 0}ms)`
+		)
+		return this.camunda.publishMessage({
+			name,
+			correlationKey,
+			variables: options.variables ?? {},
+			timeToLive: options.timeToLive ?? 0,
+			messageId: options.messageId,
+		})
+	}
+
+	/**
+	 * Broadcasts a signal to all signal catch events and signal start events
+	 * subscribed to the signal name.
+	 *
+	 * @param signalName The signal name, as defined in the BPMN model
+	 * @param variables Variables to pass with the signal
+	 * @returns The broadcast response with the signal key
+	 */
+	async broadcastSignal(signalName: string, variables: Variables = {}) {
+		debug(`Broadcasting signal '${signalName}'`)
+		return this.camunda.broadcastSignal({ signalName, variables })
+	}
+
+	/**
+	 * Resolves an incident. For job incidents, update the job retries first,
+	 * otherwise the incident is raised again immediately.
+	 *
+	 * @param incidentKey The key of the incident to resolve
+	 */
+	async resolveIncident(incidentKey: string): Promise<void> {
+		debug(`Resolving incident ${incidentKey}`)
+		await this.camunda.resolveIncident(incidentKey)
+	}
+
+	/**
+	 * Sets the remaining retries of a job, e.g. to retry a job that failed
+	 * with no retries left.
+	 *
+	 * @param jobKey The key of the job to update
+	 * @param retries The new number of retries
+	 */
+	async updateJobRetries(jobKey: string, retries: number): Promise<void> {
+		debug(`Updating retries of job ${jobKey} to ${retries}`)
+		await this.camunda.updateJob({ jobKey, retries })
+	}
+
+	/**
+	 * Evaluates a deployed decision outside of a process, e.g. to test a
+	 * DMN on its own. Pass the result to CamundaAssert.assertThatDecision()
+	 * to assert on the evaluated decision.
+	 *
+	 * @param request The decision ID (latest version) or decision definition key, and the input variables
+	 * @returns The evaluation response, including the decision evaluation key
+	 */
+	async evaluateDecision(
+		request:
+			| { decisionId: string; decisionKey?: never; variables?: Variables }
+			| { decisionKey: string; decisionId?: never; variables?: Variables }
+	): Promise<DecisionEvaluation> {
+		const variables = request.variables ?? {}
+		debug(`Evaluating decision ${request.decisionId ?? request.decisionKey}`)
+		const evaluation = request.decisionId
+			? await this.camunda.evaluateDecision({
+					decisionDefinitionId: request.decisionId,
+					variables,
+				})
+			: await this.camunda.evaluateDecision({
+					decisionDefinitionKey: request.decisionKey as string,
+					variables,
+				})
+
+		// decisionInstanceKey is the deprecated name of decisionEvaluationKey
+		const evaluationKey =
+			evaluation.decisionEvaluationKey || evaluation.decisionInstanceKey
+		this.evaluatedDecisionKeys.push(evaluationKey)
+		debug(`Decision evaluated with key ${evaluationKey}`)
+		return evaluation
+	}
+
+	/**
+	 * Evaluates a decision for each row of a decision table fixture and
+	 * compares the outputs with the expected values of the row. All rows are
+	 * evaluated; the mismatches are reported together in one error.
+	 *
+	 * @param decisionId The ID of the decision to evaluate (latest version)
+	 * @param fixture Path to a .csv or .json fixture, or rows loaded with DecisionTableFixture.load()
+	 */
+	async runDecisionTable(
+		decisionId: string,
+		fixture: string | DecisionTableRow[]
+	): Promise<void> {
+		const rows =
+			typeof fixture === 'string' ? DecisionTableFixture.load(fixture) : fixture
+		const failures: string[] = []
+
+		for (const row of rows) {
+			try {
+				const evaluation = await this.evaluateDecision({
+					decisionId,
+					variables: row.inputs,
+				})
+				const mismatches = DecisionTableFixture.findMismatches(row, evaluation)
+				if (mismatches.length > 0) {
+					failures.push(
+						`  row ${row.row} ${JSON.stringify(row.inputs)}: ${mismatches.join('; ')}`
+					)
+				}
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error)
+				failures.push(
+					`  row ${row.row} ${JSON.stringify(row.inputs)}: evaluation failed: ${message}`
+				)
+			}
+		}
+
+		const source = typeof fixture === 'string' ? ` in ${fixture}` : ''
+		if (failures.length > 0) {
+			throw new Error(
+				`Decision ${decisionId} does not match ${failures.length} of ${rows.length} rows${source}:\n${failures.join('\n')}`
+			)
+		}
+		debug(`Decision ${decisionId} matches all ${rows.length} rows${source}`)
+	}
+
+	/**
+	 * Gets the evaluation keys of the decisions evaluated with
+	 * evaluateDecision() in the current test.
+	 */
+	getEvaluatedDecisionKeys(): string[] {
+		return [...this.evaluatedDecisionKeys]
+	}
+
 	/**
 	 * Increases the current time by the specified duration.
 	 * This affects timers and scheduled tasks in processes.
@@ -429,6 +647,16 @@ export class CamundaProcessTestContext {
 		// Close any gRPC clients created in a test, and stop any external workers created
 		this.client.closeAllClients()
 
+		// Job worker mocks keep serving jobs until they are stopped
+		this.jobWorkers.forEach((worker) => worker.stop())
+		this.jobWorkers = []
+
+		// Remember the process instances of this test, so that selectors of
+		// later tests do not match them
+		this.trackedProcessInstances.forEach((processInstanceKey) =>
+			this.earlierProcessInstances.add(processInstanceKey)
+		)
+
 		// Cancel tracked process instances before deleting resources
 		await this.cleanupTrackedProcessInstances()
 
@@ -439,6 +667,7 @@ export class CamundaProcessTestContext {
 		this.trackedResources = []
 		this.trackedResourceKeys.clear()
 		this.trackedProcessInstances.clear()
+		this.evaluatedDecisionKeys = []
 	}
 
 	private async cleanupTrackedProcessInstances(): Promise<void> {
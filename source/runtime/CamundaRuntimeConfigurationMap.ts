@@ -10,7 +10,7 @@
  * - useVersionResolver: Whether to use version resolution logic for this property
  */
 
-export interface ConfigurationProperty<T = string> {
+export interface ConfigurationProperty<T = string | number> {
 	jsonKey: string
 	envKey: string
 	defaultValue: T
@@ -172,6 +172,31 @@ export const CAMUNDA_RUNTIME_CONFIGURATION = {
 		description:
 			'Connectors REST API address for remote instance (defaults to REST address on port 8085)',
 	},
+
+	// Process Coverage Configuration
+	coverageReportDirectory: {
+		jsonKey: 'coverageReportDirectory',
+		envKey: 'CAMUNDA_COVERAGE_REPORT_DIRECTORY',
+		defaultValue: 'camunda-coverage-report',
+		description:
+			'Directory where the process coverage reports (JSON and HTML) are written',
+	},
+
+	coverageThreshold: {
+		jsonKey: 'coverageThreshold',
+		envKey: 'CAMUNDA_COVERAGE_THRESHOLD',
+		defaultValue: 0,
+		description:
+			'Minimum coverage in percent (0-100) that every deployed process must reach, otherwise the suite fails',
+	},
+
+	overallCoverageThreshold: {
+		jsonKey: 'overallCoverageThreshold',
+		envKey: 'CAMUNDA_OVERALL_COVERAGE_THRESHOLD',
+		defaultValue: 0,
+		description:
+			'Minimum coverage in percent (0-100) of all deployed processes together, otherwise the suite fails',
+	},
 } as const
 
 /**
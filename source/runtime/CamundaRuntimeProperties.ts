@@ -20,7 +20,9 @@ type Properties = {
 					| 'C8RUN'
 					| 'SELF_MANAGED'
 			? 'SAAS' | 'C8RUN' | 'SELF_MANAGED'
-			: string
+			: PropertiesFromConfig<CamundaRuntimeConfigType>[K] extends number
+				? number
+				: string
 }
 
 export class ContainerRuntimePropertiesUtil implements Properties {
@@ -47,6 +49,10 @@ export class ContainerRuntimePropertiesUtil implements Properties {
 	public flushProcesses!: Properties['flushProcesses']
 	public camundaMonitoringApiAddress!: Properties['camundaMonitoringApiAddress']
 	public connectorsRestApiAddress!: Properties['connectorsRestApiAddress']
+	// Process coverage properties
+	public coverageReportDirectory!: Properties['coverageReportDirectory']
+	public coverageThreshold!: Properties['coverageThreshold']
+	public overallCoverageThreshold!: Properties['overallCoverageThreshold']
 
 	constructor(properties: Partial<Properties> = {}) {
 		// Initialize all properties dynamically using the configuration map
@@ -63,7 +69,7 @@ export class ContainerRuntimePropertiesUtil implements Properties {
 	private resolveProperty(
 		propertyKey: string,
 		properties: Partial<Properties>
-	): string {
+	): string | number {
 		const config = getConfigurationProperty(propertyKey)
 		if (!config) {
 			throw new Error(`Unknown configuration property: ${propertyKey}`)
@@ -74,7 +80,16 @@ export class ContainerRuntimePropertiesUtil implements Properties {
 			envKey: config.envKey,
 		}
 
-		if (config.useVersionResolver) {
+		if (typeof config.defaultValue === 'number') {
+			return ContainerRuntimePropertiesUtil.toNumber(
+				config.jsonKey,
+				ContainerRuntimePropertiesUtil.getPropertyOrDefault(
+					properties,
+					propertyName,
+					config.defaultValue
+				)
+			)
+		} else if (config.useVersionResolver) {
 			return ContainerRuntimePropertiesUtil.getLatestReleasedVersion(
 				properties,
 				propertyName,
@@ -89,6 +104,23 @@ export class ContainerRuntimePropertiesUtil implements Properties {
 		}
 	}
 
+	/**
+	 * Converts a numeric property, which may be given as a string in an
+	 * environment variable. Fails instead of silently using another value.
+	 */
+	private static toNumber(jsonKey: string, value: string | number): number {
+		const number = typeof value === 'number' ? value : Number(value)
+		if (
+			(typeof value === 'string' && value.trim() === '') ||
+			!Number.isFinite(number)
+		) {
+			throw new Error(
+				`Invalid value for ${jsonKey}: ${JSON.stringify(value)} is not a number`
+			)
+		}
+		return number
+	}
+
 	/**
 	 * Get property configuration for a given key.
 	 */
@@ -122,8 +154,8 @@ export class ContainerRuntimePropertiesUtil implements Properties {
 	private static getLatestReleasedVersion(
 		properties: Partial<Properties>,
 		propertyName: { jsonKey: keyof Properties },
-		defaultValue: string
-	): string {
+		defaultValue: string | number
+	): string | number {
 		const propertyValue = properties[propertyName.jsonKey]
 		if (propertyValue == null || this.isPlaceholder(propertyValue)) {
 			return defaultValue
@@ -132,8 +164,11 @@ export class ContainerRuntimePropertiesUtil implements Properties {
 		return propertyValue
 	}
 
-	private static isPlaceholder(propertyValue: string): boolean {
-		return propertyValue == null || this.PLACEHOLDER_PATTERN.test(propertyValue)
+	private static isPlaceholder(propertyValue: string | number): boolean {
+		return (
+			propertyValue == null ||
+			this.PLACEHOLDER_PATTERN.test(String(propertyValue))
+		)
 	}
 
 	/**
@@ -142,8 +177,8 @@ export class ContainerRuntimePropertiesUtil implements Properties {
 	private static getPropertyOrDefault(
 		versionProperties: Partial<Properties>,
 		propertyName: { jsonKey: keyof Properties; envKey: string },
-		defaultValue: string
-	): string {
+		defaultValue: string | number
+	): string | number {
 		const propertyValue = versionProperties[propertyName.jsonKey]
 		if (
 			process.env[propertyName.envKey] == null &&
@@ -0,0 +1,218 @@
+import fs from 'fs'
+import path from 'path'
+
+import { DecisionOutputs } from '../assertions/DecisionOutputs'
+import { VariableMatchers } from '../assertions/VariableMatchers'
+import { DecisionEvaluation } from '../types'
+
+import type { CamundaProcessTestContext } from './CamundaProcessTestContext'
+
+/**
+ * One test case of a decision table fixture: the input variables and the
+ * expected output values.
+ */
+export interface DecisionTableRow {
+	/**
+	 * Line of the row in a CSV fixture (the header is line 1), or the 1-based
+	 * position of the test case in a JSON fixture
+	 */
+	row: number
+	inputs: Record<string, unknown>
+	expected: Record<string, unknown>
+}
+
+/**
+ * Loads table-driven test cases for decisions from CSV or JSON files, and
+ * compares evaluation results with the expected outputs.
+ *
+ * CSV fixtures have a header row; columns prefixed with `expected.` hold
+ * expected outputs, all others are inputs. Cells are parsed as JSON where
+ * possible (numbers, booleans, null, arrays), otherwise kept as strings;
+ * empty cells are left out. JSON fixtures are arrays of
+ * `{ inputs, expected }` objects.
+ */
+export class DecisionTableFixture {
+	/** Prefix of CSV columns holding expected outputs */
+	public static readonly EXPECTED_PREFIX = 'expected.'
+
+	/**
+	 * Loads the rows of a .csv or .json fixture file, e.g. for describe.each().
+	 */
+	static load(filePath: string): DecisionTableRow[] {
+		const content = fs.readFileSync(path.resolve(filePath), 'utf-8')
+		const extension = path.extname(filePath).toLowerCase()
+		if (extension === '.csv') {
+			return DecisionTableFixture.parseCsv(content)
+		}
+		if (extension === '.json') {
+			return DecisionTableFixture.parseJson(content)
+		}
+		throw new Error(
+			`Unsupported decision table fixture ${filePath}: expected a .csv or .json file`
+		)
+	}
+
+	static parseCsv(content: string): DecisionTableRow[] {
+		const [header, ...records] = parseCsvRecords(content)
+		if (!header) {
+			return []
+		}
+		const columns = header.cells.map((column) => column.trim())
+		return records.map((record) => {
+			const row: DecisionTableRow = {
+				row: record.line,
+				inputs: {},
+				expected: {},
+			}
+			columns.forEach((column, columnIndex) => {
+				const cell = (record.cells[columnIndex] ?? '').trim()
+				if (cell === '') {
+					return
+				}
+				if (column.startsWith(DecisionTableFixture.EXPECTED_PREFIX)) {
+					row.expected[
+						column.slice(DecisionTableFixture.EXPECTED_PREFIX.length)
+					] = DecisionOutputs.parseValue(cell)
+				} else {
+					row.inputs[column] = DecisionOutputs.parseValue(cell)
+				}
+			})
+			return row
+		})
+	}
+
+	static parseJson(content: string): DecisionTableRow[] {
+		const cases = JSON.parse(content)
+		if (!Array.isArray(cases)) {
+			throw new Error(
+				'Decision table fixture must be an array of { inputs, expected } objects'
+			)
+		}
+		return cases.map((testCase, index) => ({
+			row: index + 1,
+			inputs: testCase.inputs ?? {},
+			expected: testCase.expected ?? {},
+		}))
+	}
+
+	/**
+	 * Compares the outputs of the evaluated decision with the expected
+	 * outputs of a row, like DecisionInstanceAssert.hasOutput(): the value of
+	 * the matched rule, an array of values if several rules matched, or null
+	 * if none matched. For a COLLECT hit policy with an aggregator (SUM, MIN,
+	 * MAX or COUNT), whose result is a number, the aggregated result of the
+	 * decision is compared instead. Returns a description of each mismatch.
+	 */
+	static findMismatches(
+		row: DecisionTableRow,
+		evaluation: DecisionEvaluation
+	): string[] {
+		if (evaluation.failureMessage) {
+			return [`evaluation failed: ${evaluation.failureMessage}`]
+		}
+		const decision = evaluation.evaluatedDecisions?.find(
+			(evaluated) =>
+				evaluated.decisionDefinitionId === evaluation.decisionDefinitionId
+		)
+		const rules = DecisionOutputs.parseMatchedRules(
+			decision?.matchedRules ?? []
+		)
+		// Only single-output tables can aggregate, and only their result is a number
+		const result = DecisionOutputs.parseValue(decision?.output ?? '')
+		const getActual = (output: string) =>
+			typeof result === 'number'
+				? result
+				: (DecisionOutputs.getOutput(rules, output) ?? null)
+		return Object.entries(row.expected)
+			.map(
+				([output, expected]) => [output, expected, getActual(output)] as const
+			)
+			.filter(
+				([, expected, actual]) => !VariableMatchers.matches(actual, expected)
+			)
+			.map(
+				([output, expected, actual]) =>
+					`expected ${output} = ${VariableMatchers.describe(expected)}, but was ${VariableMatchers.describe(actual)}`
+			)
+	}
+}
+
+/**
+ * Declares a Jest test for each row of a decision table fixture, using
+ * describe.each(). Each test evaluates the decision with the inputs of its
+ * row and fails with the mismatching outputs, like
+ * CamundaProcessTestContext.runDecisionTable().
+ */
+export function describeDecisionTable(
+	decisionId: string,
+	fixture: string | DecisionTableRow[],
+	getContext: () => CamundaProcessTestContext
+): void {
+	const rows =
+		typeof fixture === 'string' ? DecisionTableFixture.load(fixture) : fixture
+	describe(`Decision ${decisionId}`, () => {
+		describe.each(rows)('row $row', (row) => {
+			test(`matches ${JSON.stringify(row.expected)} for ${JSON.stringify(row.inputs)}`, async () => {
+				await getContext().runDecisionTable(decisionId, [row])
+			})
+		})
+	})
+}
+
+interface CsvRecord {
+	/** Line the record starts on, 1-based */
+	line: number
+	cells: string[]
+}
+
+/**
+ * Splits CSV content into records of cells. Supports quoted cells with
+ * commas, line breaks and doubled quotes; skips empty lines.
+ */
+function parseCsvRecords(content: string): CsvRecord[] {
+	const records: CsvRecord[] = []
+	let record: string[] = []
+	let cell = ''
+	let quoted = false
+	let line = 1
+	let recordLine = 1
+
+	const endRecord = () => {
+		record.push(cell)
+		if (record.length > 1 || record[0].trim() !== '') {
+			records.push({ line: recordLine, cells: record })
+		}
+		record = []
+		cell = ''
+		recordLine = line
+	}
+
+	for (let index = 0; index < content.length; index++) {
+		const char = content[index]
+		if (quoted) {
+			if (char === '"' && content[index + 1] === '"') {
+				cell += '"'
+				index++
+			} else if (char === '"') {
+				quoted = false
+			} else {
+				cell += char
+				if (char === '\n') {
+					line++
+				}
+			}
+		} else if (char === '"') {
+			quoted = true
+		} else if (char === ',') {
+			record.push(cell)
+			cell = ''
+		} else if (char === '\n') {
+			line++
+			endRecord()
+		} else if (char !== '\r') {
+			cell += char
+		}
+	}
+	endRecord()
+	return records
+}
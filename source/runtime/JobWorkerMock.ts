@@ -1,6 +1,8 @@
 import { Camunda8 } from '@camunda8/sdk'
 import Debug from 'debug'
 
+import { VariableMatchers } from '../assertions/VariableMatchers'
+
 const debug = Debug('camunda:test:jobworker')
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -11,15 +13,76 @@ interface CamundaWorker {
 	stop: () => void
 }
 
+/**
+ * A job activated by a JobWorkerMock, recorded before its handler runs.
+ */
+export interface JobInvocation {
+	jobKey: string
+	type: string
+	processInstanceKey: string
+	elementId: string
+	retries: number
+	variables: Record<string, unknown>
+	customHeaders: Record<string, unknown>
+}
+
+/**
+ * A behavior configured on a JobWorkerMock. It can be awaited until the
+ * behavior has handled its jobs (one, or the number set with times()), and
+ * chained to limit it or to configure the behavior for the following jobs.
+ */
+export type JobWorkerBehavior = Promise<void> & {
+	times(count: number): JobWorkerBehavior
+	once(): JobWorkerBehavior
+	thenComplete<T = Record<string, unknown>>(variables?: T): JobWorkerBehavior
+	thenThrowError(errorMessage: string, retries?: number): JobWorkerBehavior
+	thenThrowBpmnError(
+		errorCode: string,
+		errorMessage?: string
+	): JobWorkerBehavior
+	withHandler(handler: JobHandler): JobWorkerBehavior
+	doNothing(): JobWorkerBehavior
+	waitForInvocations(count: number, timeout?: number): Promise<JobWorkerMock>
+}
+
+interface Behavior {
+	handler: JobHandler
+	startsWorker: boolean
+	limit?: number
+	claimed: number
+	handled: number
+	done: Promise<void>
+	resolve: () => void
+}
+
+interface InvocationWaiter {
+	count: number
+	resolve: () => void
+}
+
 /**
  * Mock job worker for testing process flows.
  * Provides easy configuration for different job completion scenarios.
+ *
+ * The worker keeps handling jobs until the test ends. Behaviors are applied
+ * in the order they were configured: each behavior handles one job, or the
+ * number set with times(), and the last one handles all remaining jobs unless
+ * it is limited. Once every behavior is used up, the worker stops.
+ *
+ * The worker starts after the configuration statement, so that invalid
+ * limits are rejected before any job is activated.
  */
 export class JobWorkerMock {
+	/** Default time to wait in waitForInvocations(), in milliseconds */
+	public static readonly DEFAULT_WAIT_TIMEOUT = 10000
+
 	private worker?: CamundaWorker
-	private handlers: JobHandler[] = []
+	private behaviors: Behavior[] = []
 	private isStarted = false
-	private finish?: () => void
+	private invocations: JobInvocation[] = []
+	/** Jobs whose handler has returned, after completing or failing them */
+	private handledJobs = 0
+	private waiters: InvocationWaiter[] = []
 
 	constructor(
 		private client: Camunda8,
@@ -29,76 +92,191 @@ export class JobWorkerMock {
 	/**
 	 * Configures the worker to complete a job successfully with the given variables.
 	 */
-	thenComplete<T = Record<string, unknown>>(variables?: T): Promise<void> {
-		this.handlers.push(async (job, complete) => {
+	thenComplete<T = Record<string, unknown>>(variables?: T): JobWorkerBehavior {
+		return this.addBehavior(async (job, complete) => {
 			debug(
 				`Completing job ${job.key || job.jobKey} of type ${this.jobType} for process instance ${job.processInstanceKey} with variables:`,
 				variables
 			)
 			await complete.success(variables ?? {})
 		})
-		this.start()
-		return new Promise((resolve) => (this.finish = () => resolve(void 0)))
 	}
 
 	/**
-	 * Configures the worker to fail a job with the given error message.
+	 * Configures the worker to fail a job with the given error message,
+	 * leaving the job with the given number of retries.
 	 */
-	thenThrowError(errorMessage: string, retries: number = 0): Promise<void> {
-		this.handlers.push(async (job, complete) => {
+	thenThrowError(errorMessage: string, retries: number = 0): JobWorkerBehavior {
+		return this.addBehavior(async (job, complete) => {
 			debug(
 				`Failing job ${job.key || job.jobKey} of type ${this.jobType} with error: ${errorMessage}`
 			)
 			await complete.failure(errorMessage, undefined, retries)
 		})
-		this.start()
-		return new Promise((resolve) => (this.finish = () => resolve(void 0)))
 	}
 
 	/**
 	 * Configures the worker to throw a BPMN error with the given error code.
 	 */
-	thenThrowBpmnError(errorCode: string, errorMessage?: string): Promise<void> {
-		this.handlers.push(async (job, complete) => {
+	thenThrowBpmnError(
+		errorCode: string,
+		errorMessage?: string
+	): JobWorkerBehavior {
+		return this.addBehavior(async (job, complete) => {
 			debug(
 				`Throwing BPMN error for job ${job.key || job.jobKey} of type ${this.jobType}: ${errorCode}`
 			)
 			await complete.error(errorCode, errorMessage)
 		})
-		this.start()
-		return new Promise((resolve) => (this.finish = () => resolve(void 0)))
 	}
 
 	/**
 	 * Configures the worker with a custom handler function.
 	 */
-	withHandler(handler: JobHandler): Promise<void> {
-		this.handlers.push(handler)
-		this.start()
-		return new Promise((resolve) => (this.finish = () => resolve(void 0)))
+	withHandler(handler: JobHandler): JobWorkerBehavior {
+		return this.addBehavior(handler)
 	}
 
 	/**
 	 * Configures the worker to do nothing (jobs will timeout).
+	 * This does not start the worker: if no other behavior does, jobs are
+	 * not activated at all.
 	 */
-	doNothing(): Promise<void> {
-		this.handlers.push(() => {
+	doNothing(): JobWorkerBehavior {
+		return this.addBehavior(() => {
 			debug(`Ignoring job of type ${this.jobType} (will timeout)`)
 			// Do nothing - job will timeout
+		}, false)
+	}
+
+	/**
+	 * Limits the most recently configured behavior to the given number of jobs.
+	 */
+	times(count: number): JobWorkerBehavior {
+		const behavior = this.behaviors[this.behaviors.length - 1]
+		if (!behavior) {
+			throw new Error(
+				`Cannot limit the job worker for type ${this.jobType}: configure a behavior first, e.g. thenComplete().times(${count})`
+			)
+		}
+		return this.limit(behavior, count)
+	}
+
+	/**
+	 * Limits the most recently configured behavior to a single job.
+	 */
+	once(): JobWorkerBehavior {
+		return this.times(1)
+	}
+
+	/**
+	 * Waits until the worker has handled at least the given number of jobs,
+	 * that is until their handlers have returned from completing or failing
+	 * them. Fails if that does not happen within the timeout.
+	 */
+	waitForInvocations(
+		count: number,
+		timeout: number = JobWorkerMock.DEFAULT_WAIT_TIMEOUT
+	): Promise<this> {
+		if (this.handledJobs >= count) {
+			return Promise.resolve(this)
+		}
+		return new Promise((resolve, reject) => {
+			const waiter: InvocationWaiter = {
+				count,
+				resolve: () => {
+					clearTimeout(timer)
+					resolve(this)
+				},
+			}
+			const timer = setTimeout(() => {
+				this.waiters = this.waiters.filter((other) => other !== waiter)
+				reject(
+					new Error(
+						`Expected job worker for type ${this.jobType} to handle ${count} jobs within ${timeout}ms, but it handled ${this.handledJobs}`
+					)
+				)
+			}, timeout)
+			this.waiters.push(waiter)
+		})
+	}
+
+	private addBehavior(handler: JobHandler, start = true): JobWorkerBehavior {
+		let resolve = () => {}
+		const done = new Promise<void>((resolveDone) => (resolve = resolveDone))
+		const behavior: Behavior = {
+			handler,
+			startsWorker: start,
+			claimed: 0,
+			handled: 0,
+			done,
+			resolve,
+		}
+		this.behaviors.push(behavior)
+		if (start) {
+			queueMicrotask(() => this.start())
+		}
+		return this.toJobWorkerBehavior(behavior)
+	}
+
+	private limit(behavior: Behavior, count: number): JobWorkerBehavior {
+		if (!Number.isInteger(count) || count < 1) {
+			// The behavior is unusable, so it must not start the worker
+			if (behavior.claimed === 0) {
+				this.behaviors = this.behaviors.filter((other) => other !== behavior)
+			}
+			throw new Error(
+				`Cannot limit the job worker for type ${this.jobType} to ${count} jobs: expected a positive integer`
+			)
+		}
+		behavior.limit = count
+		if (behavior.handled >= count) {
+			behavior.resolve()
+		}
+		return this.toJobWorkerBehavior(behavior)
+	}
+
+	private toJobWorkerBehavior(behavior: Behavior): JobWorkerBehavior {
+		return Object.assign(behavior.done.then(), {
+			times: (count: number) => this.limit(behavior, count),
+			once: () => this.limit(behavior, 1),
+			thenComplete: <T = Record<string, unknown>>(variables?: T) =>
+				this.thenComplete(variables),
+			thenThrowError: (errorMessage: string, retries?: number) =>
+				this.thenThrowError(errorMessage, retries),
+			thenThrowBpmnError: (errorCode: string, errorMessage?: string) =>
+				this.thenThrowBpmnError(errorCode, errorMessage),
+			withHandler: (handler: JobHandler) => this.withHandler(handler),
+			doNothing: () => this.doNothing(),
+			waitForInvocations: (count: number, timeout?: number) =>
+				this.waitForInvocations(count, timeout),
+		})
+	}
+
+	/**
+	 * Gets the first behavior that has not handled all of its jobs yet.
+	 * Behaviors followed by another one handle a single job unless limited.
+	 */
+	private nextBehavior(): Behavior | undefined {
+		return this.behaviors.find((behavior, index) => {
+			const isLast = index === this.behaviors.length - 1
+			const capacity = behavior.limit ?? (isLast ? Infinity : 1)
+			return behavior.claimed < capacity
 		})
-		return new Promise((resolve) => (this.finish = () => resolve(void 0)))
 	}
 
 	/**
 	 * Starts the job worker with the configured behavior.
 	 */
 	private start(): void {
-		if (this.isStarted) {
+		if (
+			this.isStarted ||
+			!this.nextBehavior() ||
+			!this.behaviors.some((behavior) => behavior.startsWorker)
+		) {
 			return
 		}
 
-		let handlerIndex = 0
-
 		// Use a singleton client for worker mocks
 		const camunda = this.client.getCamundaRestClient({}, { cached: true })
 		this.worker = camunda.createJobWorker({
@@ -106,35 +284,64 @@ export class JobWorkerMock {
 			// eslint-disable-next-line @typescript-eslint/no-explicit-any
 			jobHandler: async (job: any) => {
 				debug(`Processing job ${job.jobKey} of type ${this.jobType}`)
-				this.worker?.stop()
-				const handler = this.handlers[handlerIndex % this.handlers.length]
+				const behavior = this.nextBehavior()
+				if (!behavior) {
+					// Activated while the worker stopped: leave the job untouched,
+					// it can be activated again after the activation timeout
+					debug(
+						`No behavior left for job ${job.jobKey} of type ${this.jobType}, ignoring it`
+					)
+					return 'JOB_ACTION_ACKNOWLEDGEMENT' as const
+				}
+				behavior.claimed++
+				// Stop polling as soon as the last job is claimed, so that no
+				// further job is activated
+				if (!this.nextBehavior()) {
+					this.stop()
+				}
+				this.invocations.push({
+					jobKey: job.jobKey,
+					type: job.type,
+					processInstanceKey: job.processInstanceKey,
+					elementId: job.elementId,
+					retries: job.retries,
+					variables: { ...job.variables },
+					customHeaders: { ...job.customHeaders },
+				})
 
 				try {
 					const complete = {
 						// eslint-disable-next-line @typescript-eslint/no-explicit-any
 						success: (variables: any = {}) => job.complete(variables),
-						// eslint-disable-next-line @typescript-eslint/no-explicit-any
 						failure: (
 							errorMessage: string,
 							errorDetails?: unknown,
 							retries?: number
-						) => job.fail({ errorMessage, retryBackOff: retries || 0 }),
+						) =>
+							job.fail({
+								errorMessage,
+								retries: retries ?? 0,
+								retryBackOff: 0,
+							}),
 						error: (errorCode: string, errorMessage?: string) =>
 							job.error({ errorCode, errorMessage, variables: {} }),
 					}
-					await handler(job, complete)
-					handlerIndex++
-					this.finish?.() //Resolve the mock worker promise
+					await behavior.handler(job, complete)
 					debug(
 						`Job ${job.jobKey} of type ${this.jobType} processed successfully`
 					)
-					return 'JOB_ACTION_ACKNOWLEDGEMENT' as const
 				} catch (error) {
 					debug(`Error in job handler for ${this.jobType}:`, error)
 					job.fail({ errorMessage: `Handler error: ${error}` })
-					handlerIndex++
-					return 'JOB_ACTION_ACKNOWLEDGEMENT' as const
 				}
+
+				behavior.handled++
+				this.handledJobs++
+				if (behavior.handled >= (behavior.limit ?? 1)) {
+					behavior.resolve() //Resolve the behavior promise
+				}
+				this.notifyWaiters()
+				return 'JOB_ACTION_ACKNOWLEDGEMENT' as const
 			},
 			maxJobsToActivate: 1, // Process one job at a time
 			timeout: 30000,
@@ -145,6 +352,14 @@ export class JobWorkerMock {
 		debug(`Started job worker for type: ${this.jobType}`)
 	}
 
+	private notifyWaiters(): void {
+		const satisfied = this.waiters.filter(
+			(waiter) => this.handledJobs >= waiter.count
+		)
+		this.waiters = this.waiters.filter((waiter) => !satisfied.includes(waiter))
+		satisfied.forEach((waiter) => waiter.resolve())
+	}
+
 	/**
 	 * Stops the job worker.
 	 */
@@ -156,6 +371,51 @@ export class JobWorkerMock {
 		}
 	}
 
+	/**
+	 * Gets the jobs activated by this worker, in activation order.
+	 */
+	getInvocations(): JobInvocation[] {
+		return [...this.invocations]
+	}
+
+	/**
+	 * Gets the most recently activated job, or undefined if there was none.
+	 */
+	lastJob(): JobInvocation | undefined {
+		return this.invocations[this.invocations.length - 1]
+	}
+
+	/**
+	 * Asserts that the worker was invoked exactly the given number of times.
+	 */
+	wasInvokedTimes(times: number): this {
+		if (this.invocations.length !== times) {
+			throw new Error(
+				`Expected job worker for type ${this.jobType} to be invoked ${times} times, but it was invoked ${this.invocations.length} times`
+			)
+		}
+		return this
+	}
+
+	/**
+	 * Asserts that the worker was invoked with a job containing the given
+	 * variables. Values are compared like in ProcessInstanceAssert.hasVariablesContaining().
+	 */
+	wasInvokedWith(expectedVariables: Record<string, unknown>): this {
+		const matched = this.invocations.some((invocation) =>
+			VariableMatchers.matchesPartially(invocation.variables, expectedVariables)
+		)
+		if (!matched) {
+			const received = this.invocations
+				.map((invocation) => `\n  - ${JSON.stringify(invocation.variables)}`)
+				.join('')
+			throw new Error(
+				`Expected job worker for type ${this.jobType} to be invoked with variables ${VariableMatchers.describe(expectedVariables)}, but received${received || ' no jobs'}`
+			)
+		}
+		return this
+	}
+
 	/**
 	 * Gets the job type this worker handles.
 	 */
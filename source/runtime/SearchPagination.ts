@@ -0,0 +1,38 @@
+/**
+ * A page of results of a REST API search.
+ */
+export interface SearchPage<T> {
+	items: T[]
+	page?: { totalItems: number }
+}
+
+/**
+ * Fetches all results of REST API searches, which return at most one page
+ * of results per request.
+ */
+export class SearchPagination {
+	/** Number of items fetched per search request */
+	static readonly PAGE_SIZE = 1000
+
+	/**
+	 * Runs a paginated search until all matching items are fetched.
+	 */
+	static async searchAllPages<T>(
+		search: (page: { from: number; limit: number }) => Promise<SearchPage<T>>
+	): Promise<T[]> {
+		const items: T[] = []
+		for (;;) {
+			const result = await search({
+				from: items.length,
+				limit: SearchPagination.PAGE_SIZE,
+			})
+			items.push(...result.items)
+			if (
+				result.items.length < SearchPagination.PAGE_SIZE ||
+				items.length >= (result.page?.totalItems ?? Infinity)
+			) {
+				return items
+			}
+		}
+	}
+}
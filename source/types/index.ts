@@ -14,6 +14,10 @@ export interface ProcessInstanceResult extends ProcessInstanceEvent {
 export type UserTask = CamundaRestApiTypes.UserTask
 export type ProcessInstance = CamundaRestApiTypes.ProcessInstanceDetails
 export type DecisionInstance = CamundaRestApiTypes.GetDecisionInstanceResponse
+/** Result of CamundaProcessTestContext.evaluateDecision(), accepted by CamundaAssert.assertThatDecision() */
+export type DecisionEvaluation = CamundaRestApiTypes.EvaluateDecisionResponse
+export type Incident =
+	CamundaRestApiTypes.SearchIncidentsResponse['items'][number]
 
 // Legacy interface for backwards compatibility (deprecated)
 /** @deprecated Use DecisionInstance from SDK instead */
@@ -47,6 +51,12 @@ export interface CamundaRuntimeConfiguration {
 	camundaAuthStrategy?: string
 	camundaMonitoringApiAddress?: string
 	connectorsRestApiAddress?: string
+	// Process coverage properties
+	coverageReportDirectory?: string
+	coverageThreshold?: number
+	overallCoverageThreshold?: number
+	/** Minimum coverage in percent per BPMN process id, overriding coverageThreshold */
+	processCoverageThresholds?: Record<string, number>
 	remote?: {
 		gatewayAddress?: string
 		camundaMonitoringApiAddress?: string
@@ -67,14 +77,79 @@ export type ElementSelector = {
 export type ProcessInstanceSelector = {
 	type: 'key' | 'processId' | 'custom'
 	value: string | ((instance: ProcessInstance) => boolean)
+	/**
+	 * How to handle several matching instances for processId and custom selectors:
+	 * 'only' fails (default), 'latest' selects the most recently started one.
+	 */
+	match?: 'only' | 'latest'
 }
 
 export type UserTaskSelector = {
-	type: 'key' | 'elementId' | 'assignee' | 'custom'
+	type:
+		| 'key'
+		| 'elementId'
+		| 'assignee'
+		| 'candidateUser'
+		| 'name'
+		| 'formKey'
+		| 'custom'
 	value: string | ((task: UserTask) => boolean)
+	/** Restricts the selector to one process instance */
+	processInstanceKey?: string
+}
+
+export type JobSelector = {
+	type: 'key' | 'type' | 'elementId' | 'processInstanceKey' | 'custom'
+	value: string | ((job: Job) => boolean)
+	/** Restricts type, elementId and custom selectors to one process instance */
+	processInstanceKey?: string
+}
+
+export type IncidentSelector = {
+	type: 'key' | 'elementId' | 'jobKey' | 'processInstanceKey' | 'custom'
+	value: string | ((incident: Incident) => boolean)
+	/** Restricts elementId and custom selectors to one process instance */
+	processInstanceKey?: string
 }
 
 export type DecisionSelector = {
 	type: 'key' | 'decisionId' | 'processInstanceKey' | 'custom'
 	value: string | ((decision: DecisionInstance) => boolean)
+	/** Restricts key selectors to one decision, e.g. the root decision of an evaluation */
+	decisionId?: string
+}
+
+// Job as returned by the job search endpoint, which the SDK client does not wrap
+export interface Job {
+	jobKey: string
+	type: string
+	worker?: string
+	state: string
+	kind?: string
+	retries: number
+	errorCode?: string | null
+	errorMessage?: string | null
+	customHeaders?: Record<string, string>
+	deadline?: string
+	endTime?: string
+	elementId: string
+	elementInstanceKey: string
+	processDefinitionId: string
+	processDefinitionKey: string
+	processInstanceKey: string
+	tenantId: string
 }
+
+export type JobFilter = Partial<
+	Pick<
+		Job,
+		| 'jobKey'
+		| 'type'
+		| 'worker'
+		| 'state'
+		| 'elementId'
+		| 'elementInstanceKey'
+		| 'processDefinitionId'
+		| 'processInstanceKey'
+	>
+>
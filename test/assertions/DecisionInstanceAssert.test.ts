@@ -0,0 +1,188 @@
+import { CamundaAssert } from '../../source/assertions/CamundaAssert'
+import { DecisionEvaluation } from '../../source/types'
+import { fakeContext } from '../fakeContext'
+
+/**
+ * Creates a fake REST client with one evaluation (key 800) of a loan
+ * approval decision that requires a risk score decision. Each decision of
+ * the evaluation has a decision instance, identified by the evaluation key
+ * suffixed with its evaluation index.
+ */
+const createClient = () => {
+	const instance = (
+		index: number,
+		decisionDefinitionId: string,
+		result: unknown
+	) => ({
+		decisionInstanceId: `800-${index}`,
+		decisionInstanceKey: '800',
+		decisionDefinitionId,
+		decisionDefinitionName: decisionDefinitionId,
+		decisionDefinitionVersion: 1,
+		decisionType: 'DECISION_TABLE',
+		state: 'EVALUATED',
+		result: JSON.stringify(result),
+		evaluationDate: '2025-01-01T10:00:00.000Z',
+		tenantId: '<default>',
+	})
+	const instances = [
+		instance(1, 'risk-score', 'low'),
+		instance(2, 'loan-approval', { approved: true, limit: 5000 }),
+	]
+	const details: Record<string, unknown> = {
+		'800-1': {
+			...instances[0],
+			matchedRules: [
+				{
+					ruleId: 'risk-low',
+					ruleIndex: 1,
+					evaluatedOutputs: [
+						{ outputId: 'risk', outputName: 'risk', outputValue: '"low"' },
+					],
+				},
+			],
+		},
+		'800-2': {
+			...instances[1],
+			evaluatedInputs: [
+				{ inputName: 'amount', inputValue: '1000' },
+				{ inputName: 'risk', inputValue: '"low"' },
+			],
+			matchedRules: [
+				{
+					ruleId: 'approve-low-risk',
+					ruleIndex: 2,
+					evaluatedOutputs: [
+						{
+							outputId: 'approved',
+							outputName: 'approved',
+							outputValue: 'true',
+						},
+						{ outputId: 'limit', outputName: 'limit', outputValue: '5000' },
+					],
+				},
+			],
+		},
+	}
+	return {
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		searchDecisionInstances: jest.fn(async ({ filter }: any) => ({
+			items: instances.filter(
+				(item) =>
+					(!filter.decisionInstanceKey ||
+						item.decisionInstanceKey === filter.decisionInstanceKey) &&
+					(!filter.decisionDefinitionId ||
+						item.decisionDefinitionId === filter.decisionDefinitionId)
+			),
+		})),
+		getDecisionInstance: jest.fn(async (decisionInstanceId: string) => {
+			if (!details[decisionInstanceId]) {
+				throw new Error('Request failed with status code 404')
+			}
+			return details[decisionInstanceId]
+		}),
+	}
+}
+
+const evaluation = {
+	decisionDefinitionId: 'loan-approval',
+	decisionEvaluationKey: '800',
+} as DecisionEvaluation
+
+describe('DecisionInstanceAssert', () => {
+	beforeEach(() => {
+		CamundaAssert.initialize(fakeContext(createClient()))
+		CamundaAssert.setAssertionTimeout(200)
+		CamundaAssert.setAssertionInterval(10)
+	})
+
+	afterEach(() => {
+		CamundaAssert.reset()
+		CamundaAssert.setAssertionTimeout(CamundaAssert.DEFAULT_ASSERTION_TIMEOUT)
+		CamundaAssert.setAssertionInterval(CamundaAssert.DEFAULT_ASSERTION_INTERVAL)
+	})
+
+	describe('evaluated decisions', () => {
+		it('should assert the result of an evaluation', async () => {
+			const decision = CamundaAssert.assertThatDecision(evaluation)
+
+			await decision.wasEvaluated()
+			await decision.hasResult({ approved: true, limit: expect.any(Number) })
+			await decision.hasResultContaining({ approved: true })
+			await decision.hasInput({ amount: 1000 })
+		})
+
+		it('should select the decision of the evaluation, not a required one', async () => {
+			await expect(
+				CamundaAssert.assertThatDecision(evaluation).hasResult('low')
+			).rejects.toThrow('Timeout waiting for Decision to have result: "low"')
+		})
+	})
+
+	describe('matched rules and outputs', () => {
+		it('should assert the matched rules by index and id', async () => {
+			const decision = CamundaAssert.assertThatDecision(evaluation)
+
+			await decision.hasMatchedRules(2)
+			await decision.hasMatchedRuleIds('approve-low-risk')
+			await expect(decision.hasMatchedRules(1, 2)).rejects.toThrow(
+				'Timeout waiting for Decision to have matched rules 1, 2 (matched: 2)'
+			)
+			await expect(decision.hasNoMatchedRules()).rejects.toThrow(
+				'Timeout waiting for Decision to have no matched rules (matched: 2)'
+			)
+		})
+
+		it('should assert the outputs of the matched rules', async () => {
+			const decision = CamundaAssert.assertThatDecision(evaluation)
+
+			await decision.hasOutput('approved', true)
+			await decision.hasOutput('limit', expect.any(Number))
+			await expect(decision.hasOutput('limit', 10000)).rejects.toThrow(
+				'Timeout waiting for Decision to have output limit = 10000 (was: 5000)'
+			)
+			await expect(decision.hasOutput('reason', 'ok')).rejects.toThrow(
+				'Timeout waiting for Decision to have output reason = "ok" (was: not found)'
+			)
+		})
+	})
+
+	describe('required decisions', () => {
+		it('should assert that a required decision was evaluated', async () => {
+			await CamundaAssert.assertThatDecision(
+				evaluation
+			).hasRequiredDecisionEvaluated('risk-score')
+		})
+
+		it('should navigate to the required decision', async () => {
+			const riskScore =
+				await CamundaAssert.assertThatDecision(evaluation).requiredDecision(
+					'risk-score'
+				)
+
+			await riskScore.hasResult('low')
+			await riskScore.hasMatchedRuleIds('risk-low')
+			await riskScore.hasOutput('risk', 'low')
+		})
+
+		it('should list the evaluated decisions if a required decision is missing', async () => {
+			await expect(
+				CamundaAssert.assertThatDecision(
+					evaluation
+				).hasRequiredDecisionEvaluated('fraud-check')
+			).rejects.toThrow(
+				'Timeout waiting for Decision to have evaluated required decision fraud-check (evaluated: risk-score, loan-approval)'
+			)
+		})
+
+		it('should not count the decision itself as a required decision', async () => {
+			await expect(
+				CamundaAssert.assertThatDecision(
+					evaluation
+				).hasRequiredDecisionEvaluated('loan-approval')
+			).rejects.toThrow(
+				'Timeout waiting for Decision to have evaluated required decision loan-approval'
+			)
+		})
+	})
+})
@@ -0,0 +1,47 @@
+import { DecisionOutputs } from '../../source/assertions/DecisionOutputs'
+
+describe('DecisionOutputs', () => {
+	const rules = DecisionOutputs.parseMatchedRules([
+		{
+			ruleId: 'silver',
+			ruleIndex: '3',
+			evaluatedOutputs: [
+				{ outputId: 'out-1', outputName: 'discount', outputValue: '0.05' },
+				{ outputId: 'out-2', outputName: 'label', outputValue: 'not json' },
+			],
+		},
+		{
+			ruleId: 'gold',
+			ruleIndex: 1,
+			evaluatedOutputs: [
+				{ outputId: 'out-1', outputName: 'discount', outputValue: '0.1' },
+			],
+		},
+	])
+
+	it('should parse output values and sort rules by index', () => {
+		expect(rules).toEqual([
+			{
+				ruleId: 'gold',
+				ruleIndex: 1,
+				outputs: { 'out-1': 0.1, discount: 0.1 },
+			},
+			{
+				ruleId: 'silver',
+				ruleIndex: 3,
+				outputs: {
+					'out-1': 0.05,
+					discount: 0.05,
+					'out-2': 'not json',
+					label: 'not json',
+				},
+			},
+		])
+	})
+
+	it('should get the values of an output by name or ID', () => {
+		expect(DecisionOutputs.getOutput(rules, 'label')).toBe('not json')
+		expect(DecisionOutputs.getOutput(rules, 'out-1')).toEqual([0.1, 0.05])
+		expect(DecisionOutputs.getOutput(rules, 'missing')).toBeUndefined()
+	})
+})
@@ -0,0 +1,76 @@
+import {
+	FormSchema,
+	FormValidator,
+} from '../../source/assertions/FormValidator'
+
+describe('FormValidator', () => {
+	const schema: FormSchema = {
+		id: 'order-review',
+		components: [
+			{ type: 'text', label: 'Please review the order' },
+			{
+				type: 'textfield',
+				key: 'reviewer',
+				validate: { required: true },
+			},
+			{ type: 'number', key: 'discount' },
+			{ type: 'checkbox', key: 'approved', validate: { required: true } },
+			{
+				type: 'select',
+				key: 'priority',
+				values: [{ value: 'low' }, { value: 'high' }],
+			},
+			{
+				type: 'group',
+				path: 'customer',
+				components: [{ type: 'textfield', key: 'name' }],
+			},
+			{
+				type: 'dynamiclist',
+				path: 'items',
+				components: [
+					{ type: 'textfield', key: 'sku', validate: { required: true } },
+				],
+			},
+		],
+	}
+
+	it('should accept valid form data', () => {
+		expect(
+			FormValidator.validate(schema, {
+				reviewer: 'alice',
+				discount: 0.1,
+				approved: false,
+				priority: 'high',
+				customer: { name: 'ACME' },
+				items: [{ sku: 'A1' }],
+			})
+		).toEqual([])
+	})
+
+	it('should report missing required fields and wrong types', () => {
+		expect(
+			FormValidator.validate(schema, {
+				discount: '10%',
+				priority: 'urgent',
+				items: [{ sku: 'A1' }, {}],
+			})
+		).toEqual([
+			"Field 'reviewer' is required",
+			"Field 'discount' must be of type number, got string",
+			"Field 'approved' is required",
+			'Field \'priority\' has values not offered by the form: ["urgent"]',
+			"Field 'sku' is required (in items[1])",
+		])
+	})
+
+	it('should report variables the form does not define', () => {
+		expect(
+			FormValidator.validate(JSON.stringify(schema), {
+				reviewer: 'alice',
+				approved: true,
+				comment: 'looks good',
+			})
+		).toEqual(["Variable 'comment' is not a field of the form"])
+	})
+})
@@ -0,0 +1,92 @@
+import { IncidentAssert } from '../../source/assertions/IncidentAssert'
+import { IncidentSelector } from '../../source/types'
+import { fakeContext } from '../fakeContext'
+
+/**
+ * Creates a fake REST client with a job incident of a declined payment.
+ */
+const createClient = (state = 'ACTIVE') => ({
+	searchIncidents: jest.fn(async () => ({
+		items: [
+			{
+				incidentKey: '600',
+				errorType: 'JOB_NO_RETRIES',
+				errorMessage: 'Card declined by issuer',
+				elementId: 'charge-card',
+				elementInstanceKey: '400',
+				jobKey: '500',
+				processDefinitionId: 'order-process',
+				processDefinitionKey: '10',
+				processInstanceKey: '100',
+				state,
+				creationTime: '2025-01-01T10:00:00.000Z',
+				tenantId: '<default>',
+			},
+		],
+	})),
+})
+
+const assertThat = (
+	client: ReturnType<typeof createClient>,
+	selector: IncidentSelector = { type: 'elementId', value: 'charge-card' }
+) => new IncidentAssert(fakeContext(client), selector, 200, 10)
+
+describe('IncidentAssert', () => {
+	it('should assert the properties of the incident', async () => {
+		const assertion = assertThat(createClient())
+
+		await assertion.exists()
+		await assertion.hasErrorType('JOB_NO_RETRIES')
+		await assertion.hasElementId('charge-card')
+		await assertion.hasJobKey('500')
+		await assertion.hasErrorMessage('declined')
+		await assertion.hasErrorMessage(/^Card declined/)
+	})
+
+	it('should report the actual value of the incident', async () => {
+		await expect(
+			assertThat(createClient()).hasErrorType('UNHANDLED_ERROR_EVENT')
+		).rejects.toThrow(
+			"Timeout waiting for Incident with elementId 'charge-card' to have error type UNHANDLED_ERROR_EVENT (was: JOB_NO_RETRIES)"
+		)
+		await expect(
+			assertThat(createClient()).hasErrorMessage(/timeout/)
+		).rejects.toThrow(
+			'to have error message matching /timeout/ (was: Card declined by issuer)'
+		)
+	})
+
+	it('should report that no incident was found', async () => {
+		await expect(
+			assertThat(createClient(), {
+				type: 'custom',
+				value: (incident) => incident.errorType === 'IO_MAPPING_ERROR',
+			}).hasElementId('charge-card')
+		).rejects.toThrow(
+			'Timeout waiting for Incident matching custom selector to be on element charge-card (no incident found)'
+		)
+	})
+
+	it('should assert that the incident is resolved', async () => {
+		await assertThat(createClient('RESOLVED')).isResolved()
+		await expect(assertThat(createClient()).isResolved()).rejects.toThrow(
+			"Timeout waiting for Incident with elementId 'charge-card' to be resolved"
+		)
+	})
+
+	it('should search incidents by the selector, restricted to a process instance', async () => {
+		const client = createClient()
+
+		await assertThat(client, {
+			type: 'jobKey',
+			value: '500',
+			processInstanceKey: '100',
+		}).exists()
+
+		expect(client.searchIncidents).toHaveBeenCalledWith(
+			expect.objectContaining({
+				filter: { processInstanceKey: '100', jobKey: '500' },
+			})
+		)
+	})
+})
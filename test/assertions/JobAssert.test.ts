@@ -0,0 +1,194 @@
+import { JobAssert } from '../../source/assertions/JobAssert'
+import { JobSelector } from '../../source/types'
+import { fakeContext } from '../fakeContext'
+
+/**
+ * Creates a fake REST client with a job of a service task inside a
+ * subprocess: process instance 100 > subprocess 300 > service task 400.
+ */
+const createClient = () => {
+	const job = {
+		jobKey: '500',
+		type: 'payment',
+		state: 'CREATED',
+		retries: 3,
+		elementId: 'charge-card',
+		elementInstanceKey: '400',
+		processDefinitionId: 'order-process',
+		processDefinitionKey: '10',
+		processInstanceKey: '100',
+		tenantId: '<default>',
+	}
+	const children: Record<
+		string,
+		Array<{ elementInstanceKey: string; type: string }>
+	> = {
+		'100': [
+			{ elementInstanceKey: '200', type: 'START_EVENT' },
+			{ elementInstanceKey: '300', type: 'SUB_PROCESS' },
+			{ elementInstanceKey: '301', type: 'SUB_PROCESS' },
+		],
+		'300': [{ elementInstanceKey: '400', type: 'SERVICE_TASK' }],
+		'301': [{ elementInstanceKey: '401', type: 'SERVICE_TASK' }],
+	}
+	const variable = (
+		scopeKey: string,
+		name: string,
+		value: unknown,
+		isTruncated = false
+	) => ({
+		variableKey: `${scopeKey}-${name}`,
+		scopeKey,
+		processInstanceKey: '100',
+		name,
+		value: isTruncated
+			? JSON.stringify(value).slice(0, 10)
+			: JSON.stringify(value),
+		isTruncated,
+	})
+	const items = [
+		variable('100', 'orderId', 'order-1'),
+		variable('100', 'status', 'created'),
+		variable('300', 'status', 'charging'),
+		variable(
+			'300',
+			'items',
+			[{ sku: 'A1', description: 'x'.repeat(50) }],
+			true
+		),
+		variable('400', 'attempt', 2),
+		variable('301', 'shipment', 'DHL'),
+	]
+
+	return {
+		callApiEndpoint: jest.fn(async () => ({ items: [job] })),
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		searchElementInstances: jest.fn(async ({ filter }: any) => ({
+			items: children[filter.elementInstanceScopeKey] ?? [],
+		})),
+		searchVariables: jest.fn(async () => ({ items })),
+		getVariable: jest.fn(async ({ variableKey }: { variableKey: string }) => ({
+			value: JSON.stringify([{ sku: 'A1', description: 'x'.repeat(50) }]),
+			variableKey,
+		})),
+	}
+}
+
+const assertThat = (
+	client: ReturnType<typeof createClient>,
+	selector: JobSelector = { type: 'type', value: 'payment' }
+) => new JobAssert(fakeContext(client), selector, 200, 10)
+
+describe('JobAssert', () => {
+	describe('hasVariables', () => {
+		it('should merge the variables of all enclosing scopes', async () => {
+			const client = createClient()
+
+			await assertThat(client).hasVariables({
+				orderId: 'order-1',
+				status: 'charging',
+				attempt: 2,
+				items: [{ sku: 'A1', description: expect.any(String) }],
+			})
+
+			expect(client.getVariable).toHaveBeenCalledWith({
+				variableKey: '300-items',
+			})
+		})
+
+		it('should not include variables of other scopes', async () => {
+			await expect(
+				assertThat(createClient()).hasVariables({ shipment: 'DHL' })
+			).rejects.toThrow(
+				"Timeout waiting for Job with type 'payment' to have variables"
+			)
+		})
+	})
+
+	describe('job state and properties', () => {
+		const failedJob = {
+			jobKey: '501',
+			type: 'payment',
+			state: 'FAILED',
+			retries: 2,
+			worker: 'payment-worker',
+			errorMessage: 'Card declined by issuer',
+			deadline: '2025-01-01T10:05:00.000Z',
+			customHeaders: { endpoint: 'https://payments.example.com', retry: '3' },
+			elementId: 'charge-card',
+			elementInstanceKey: '400',
+			processDefinitionId: 'order-process',
+			processDefinitionKey: '10',
+			processInstanceKey: '100',
+			tenantId: '<default>',
+		}
+		const createJobClient = () => ({
+			callApiEndpoint: jest.fn(async () => ({ items: [failedJob] })),
+		})
+		const assertThatJob = (
+			client: ReturnType<typeof createJobClient>,
+			selector: JobSelector = { type: 'type', value: 'payment' }
+		) => new JobAssert(fakeContext(client), selector, 200, 10)
+
+		it('should assert the state and properties of the job', async () => {
+			const assertion = assertThatJob(createJobClient())
+
+			await assertion.isFailed('declined')
+			await assertion.hasRetries(2)
+			await assertion.hasWorker('payment-worker')
+			await assertion.hasCustomHeaders({ endpoint: expect.any(String) })
+			await assertion.hasDeadlineAfter(new Date('2025-01-01T10:00:00.000Z'))
+			await assertion.hasDeadlineBefore(new Date('2025-01-01T10:10:00.000Z'))
+		})
+
+		it('should fail for another state or error message', async () => {
+			await expect(
+				assertThatJob(createJobClient()).isCompleted()
+			).rejects.toThrow(
+				"Timeout waiting for Job with type 'payment' to be completed after 200ms"
+			)
+			await expect(
+				assertThatJob(createJobClient()).isFailed('timeout')
+			).rejects.toThrow(
+				"Timeout waiting for Job with type 'payment' to be failed with message containing: timeout"
+			)
+			await expect(
+				assertThatJob(createJobClient()).isErrored()
+			).rejects.toThrow(
+				"Timeout waiting for Job with type 'payment' to throw a BPMN error"
+			)
+		})
+
+		it('should search jobs by the selector, restricted to a process instance', async () => {
+			const client = createJobClient()
+
+			await assertThatJob(client, {
+				type: 'elementId',
+				value: 'charge-card',
+				processInstanceKey: '100',
+			}).isCreated()
+
+			expect(client.callApiEndpoint).toHaveBeenCalledWith(
+				expect.objectContaining({
+					urlPath: 'jobs/search',
+					body: expect.objectContaining({
+						filter: { processInstanceKey: '100', elementId: 'charge-card' },
+					}),
+				})
+			)
+		})
+
+		it('should select jobs with a custom predicate', async () => {
+			await assertThatJob(createJobClient(), {
+				type: 'custom',
+				value: (job) => job.retries === 2,
+			}).isCreated()
+			await expect(
+				assertThatJob(createJobClient(), {
+					type: 'custom',
+					value: (job) => job.retries === 3,
+				}).isCreated()
+			).rejects.toThrow('Timeout waiting for Job')
+		})
+	})
+})
@@ -0,0 +1,903 @@
+import { ProcessInstanceAssert } from '../../source/assertions/ProcessInstanceAssert'
+import { ElementSelector, ProcessInstanceSelector } from '../../source/types'
+import { fakeContext } from '../fakeContext'
+
+const byId = (id: string): ElementSelector => ({ type: 'id', value: id })
+
+const assertThat = (
+	client: object,
+	processInstance: string | ProcessInstanceSelector,
+	context: object = {}
+) =>
+	new ProcessInstanceAssert(
+		fakeContext(client, context),
+		processInstance,
+		byId,
+		200,
+		10
+	)
+
+interface FakeProcessInstance {
+	processInstanceKey: string
+	processDefinitionId: string
+	processDefinitionKey: string
+	parentProcessInstanceKey?: string
+	state: 'ACTIVE' | 'COMPLETED'
+	startDate: string
+}
+
+/**
+ * Creates a fake REST client holding the given process instances, which
+ * returns search results in pages and newest first like the REST API does.
+ */
+const createClient = (instances: FakeProcessInstance[]) => ({
+	searchProcessInstances: jest.fn(
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		async ({ filter, sort, page }: any) => {
+			const items = instances.filter((instance) =>
+				Object.entries(filter).every(
+					([field, value]) =>
+						instance[field as keyof FakeProcessInstance] === value
+				)
+			)
+			if (sort[0].field === 'startDate') {
+				items.sort((a, b) => b.startDate.localeCompare(a.startDate))
+			}
+			return {
+				items: items.slice(page.from, page.from + page.limit),
+				page: { totalItems: items.length },
+			}
+		}
+	),
+})
+
+const instance = (
+	processInstanceKey: string,
+	overrides: Partial<FakeProcessInstance> = {}
+): FakeProcessInstance => ({
+	processInstanceKey,
+	processDefinitionId: 'order-process',
+	processDefinitionKey: '10',
+	state: 'ACTIVE',
+	startDate: `2025-01-01T10:00:00.${processInstanceKey.padStart(3, '0')}Z`,
+	...overrides,
+})
+
+/**
+ * Creates a fake REST client for process instance 100 of an order process:
+ * the order was received, stock was checked and the card charged, two items
+ * were packed by a multi-instance task, and an approval is active.
+ */
+const createElementClient = () => {
+	const element = (
+		elementInstanceKey: string,
+		elementId: string,
+		elementName: string,
+		type: string,
+		state: 'ACTIVE' | 'COMPLETED',
+		endSecond?: number
+	) => ({
+		elementInstanceKey,
+		elementId,
+		elementName,
+		type,
+		state,
+		processInstanceKey: '100',
+		endDate:
+			endSecond === undefined
+				? undefined
+				: `2025-01-01T10:00:0${endSecond}.000Z`,
+	})
+	const elements = [
+		element('200', 'start', 'Order received', 'START_EVENT', 'COMPLETED', 0),
+		element(
+			'300',
+			'charge-card',
+			'Charge card',
+			'SERVICE_TASK',
+			'COMPLETED',
+			2
+		),
+		element(
+			'301',
+			'check-stock',
+			'Check stock',
+			'SERVICE_TASK',
+			'COMPLETED',
+			1
+		),
+		element('400', 'pack', 'Pack item', 'MULTI_INSTANCE_BODY', 'COMPLETED', 4),
+		element('402', 'pack', 'Pack item', 'SERVICE_TASK', 'COMPLETED', 3),
+		element('401', 'pack', 'Pack item', 'SERVICE_TASK', 'COMPLETED', 3),
+		element('500', 'approve', 'Approve order', 'USER_TASK', 'ACTIVE'),
+	]
+	return {
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		searchElementInstances: jest.fn(async ({ filter }: any) => ({
+			items: elements.filter(
+				(candidate) => !filter.state || candidate.state === filter.state
+			),
+		})),
+		callApiEndpoint: jest.fn(async () => ({
+			items: [
+				{ sequenceFlowId: 'to-check-stock', elementId: 'to-check-stock' },
+				{ sequenceFlowId: 'to-charge-card', elementId: 'to-charge-card' },
+			],
+		})),
+	}
+}
+
+/**
+ * Context overrides for a suite that deployed order-process (definition 10)
+ * and created process instance 1 in an earlier test.
+ */
+const suiteContext = {
+	getDeployedProcessDefinitionKeys: (processDefinitionId?: string) =>
+		processDefinitionId === undefined || processDefinitionId === 'order-process'
+			? ['10']
+			: [],
+	isProcessInstanceOfEarlierTest: (processInstanceKey: string) =>
+		processInstanceKey === '1',
+}
+
+describe('ProcessInstanceAssert', () => {
+	describe('negative assertions', () => {
+		it('should retry a failing check within the stable window', async () => {
+			let calls = 0
+			const client = {
+				searchProcessInstances: jest.fn(async () => {
+					calls++
+					if (calls === 1) {
+						throw new Error('Request failed with status code 503')
+					}
+					return { items: [{ processInstanceKey: '100', state: 'ACTIVE' }] }
+				}),
+			}
+
+			await assertThat(client, '100').remainsFor(50).isNotCompleted()
+
+			expect(calls).toBeGreaterThan(1)
+		})
+
+		it('should report the last error if checks fail until the end of the window', async () => {
+			const client = {
+				searchProcessInstances: jest.fn(async () => {
+					throw new Error('Request failed with status code 503')
+				}),
+			}
+
+			await expect(
+				assertThat(client, '100').remainsFor(50).isNotCompleted()
+			).rejects.toThrow(
+				'Could not check Process instance 100 not to be completed for 50ms: Request failed with status code 503'
+			)
+		})
+
+		it('should fail at the first violation', async () => {
+			const client = {
+				searchProcessInstances: jest.fn(async () => ({
+					items: [{ processInstanceKey: '100', state: 'COMPLETED' }],
+				})),
+			}
+
+			await expect(
+				assertThat(client, '100').remainsFor(5000).isNotCompleted()
+			).rejects.toThrow(
+				/Expected Process instance 100 not to be completed for 5000ms, but it was violated after \d+ms/
+			)
+		})
+
+		it('should pass hasNoActiveElements() for elements that are not active', async () => {
+			await assertThat(createElementClient(), '100')
+				.remainsFor(30)
+				.hasNoActiveElements('charge-card', 'pack')
+		})
+
+		it('should report the active elements violating hasNoActiveElements()', async () => {
+			await expect(
+				assertThat(createElementClient(), '100')
+					.remainsFor(30)
+					.hasNoActiveElements()
+			).rejects.toThrow(
+				'Expected No elements to be active (active: approve) for 30ms'
+			)
+		})
+
+		it('should ignore resolved incidents in hasNoIncidents()', async () => {
+			const client = {
+				searchIncidents: jest.fn(async () => ({
+					items: [
+						{
+							incidentKey: '1',
+							errorType: 'JOB_NO_RETRIES',
+							errorMessage: 'Card declined',
+							elementId: 'charge-card',
+							state: 'RESOLVED',
+						},
+					],
+				})),
+			}
+
+			await assertThat(client, '100').remainsFor(30).hasNoIncidents()
+		})
+
+		it('should require positive assertions to stay met in stable-state mode', async () => {
+			let calls = 0
+			const client = {
+				searchProcessInstances: jest.fn(async () => {
+					calls++
+					return {
+						items: [
+							{
+								processInstanceKey: '100',
+								state: calls === 1 ? 'ACTIVE' : 'COMPLETED',
+							},
+						],
+					}
+				}),
+			}
+
+			await expect(
+				assertThat(client, '100').remainsFor(50).isActive()
+			).rejects.toThrow(
+				'Expected Process instance 100 to be active for 50ms, but it was violated'
+			)
+		})
+	})
+
+	describe('process instance selectors', () => {
+		it('should ignore process instances of earlier tests and their children', async () => {
+			const client = createClient([
+				instance('1'),
+				instance('2', {
+					processDefinitionId: 'payment-process',
+					processDefinitionKey: '20',
+					parentProcessInstanceKey: '1',
+				}),
+				instance('3'),
+			])
+
+			await assertThat(
+				client,
+				{ type: 'processId', value: 'order-process' },
+				suiteContext
+			).isActive()
+			await expect(
+				assertThat(
+					client,
+					{ type: 'processId', value: 'payment-process' },
+					suiteContext
+				).isActive()
+			).rejects.toThrow(
+				"No process instance found with processId 'payment-process' after 200ms"
+			)
+		})
+
+		it('should only search the deployed process definitions', async () => {
+			const client = createClient([
+				instance('3'),
+				instance('4', {
+					processDefinitionId: 'other-process',
+					processDefinitionKey: '30',
+				}),
+			])
+
+			await assertThat(
+				client,
+				{ type: 'custom', value: () => true },
+				suiteContext
+			).isActive()
+
+			expect(client.searchProcessInstances).toHaveBeenCalledWith(
+				expect.objectContaining({ filter: { processDefinitionKey: '10' } })
+			)
+		})
+
+		it('should find process instances beyond the first page of results', async () => {
+			const instances = Array.from({ length: 1001 }, (_, index) =>
+				instance(String(index + 2), { state: 'COMPLETED' })
+			)
+			const client = createClient(instances)
+
+			await assertThat(
+				client,
+				{
+					type: 'custom',
+					value: (candidate) => candidate.processInstanceKey === '2',
+				},
+				suiteContext
+			).isCompleted()
+
+			expect(client.searchProcessInstances).toHaveBeenCalledWith(
+				expect.objectContaining({ page: { from: 1000, limit: 1000 } })
+			)
+		})
+
+		it('should fail if several process instances of the current test match', async () => {
+			const client = createClient([instance('1'), instance('3'), instance('4')])
+
+			await expect(
+				assertThat(
+					client,
+					{ type: 'processId', value: 'order-process' },
+					suiteContext
+				).isActive()
+			).rejects.toThrow(
+				"Expected one process instance with processId 'order-process', but found 2: 4, 3"
+			)
+		})
+	})
+
+	describe('isWaitingForMessage', () => {
+		const subscription = (
+			messageSubscriptionType: string,
+			correlationKey: string
+		) => ({
+			messageSubscriptionKey: `${messageSubscriptionType}-${correlationKey}`,
+			messageName: 'payment-received',
+			correlationKey,
+			messageSubscriptionType,
+			elementId: 'wait-for-payment',
+			processInstanceKey: '100',
+		})
+		const createMessageClient = () => ({
+			callApiEndpoint: jest.fn(async () => ({
+				items: [
+					subscription('CORRELATED', 'order-1'),
+					subscription('CREATED', 'order-2'),
+				],
+			})),
+		})
+
+		it('should pass for an open subscription with the correlation key', async () => {
+			const client = createMessageClient()
+
+			await assertThat(client, '100').isWaitingForMessage(
+				'payment-received',
+				'order-2'
+			)
+
+			expect(client.callApiEndpoint).toHaveBeenCalledWith(
+				expect.objectContaining({
+					urlPath: 'message-subscriptions/search',
+					body: expect.objectContaining({
+						filter: {
+							processInstanceKey: '100',
+							messageName: 'payment-received',
+						},
+					}),
+				})
+			)
+		})
+
+		it('should ignore correlated subscriptions', async () => {
+			await expect(
+				assertThat(createMessageClient(), '100').isWaitingForMessage(
+					'payment-received',
+					'order-1'
+				)
+			).rejects.toThrow(
+				"Timeout waiting for Process instance to wait for message 'payment-received' with correlation key 'order-1' after 200ms"
+			)
+		})
+	})
+
+	describe('isWaitingForSignal', () => {
+		const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL">
+  <bpmn:process id="stock-process" isExecutable="true">
+    <bpmn:startEvent id="start" />
+    <bpmn:eventBasedGateway id="wait" />
+    <bpmn:intermediateCatchEvent id="stock-updated">
+      <bpmn:signalEventDefinition signalRef="Signal_stock" />
+    </bpmn:intermediateCatchEvent>
+    <bpmn:serviceTask id="reserve" />
+    <bpmn:boundaryEvent id="cancelled" attachedToRef="reserve">
+      <bpmn:signalEventDefinition signalRef="Signal_cancel" />
+    </bpmn:boundaryEvent>
+    <bpmn:sequenceFlow id="flow-1" sourceRef="start" targetRef="wait" />
+    <bpmn:sequenceFlow id="flow-2" sourceRef="wait" targetRef="stock-updated" />
+  </bpmn:process>
+  <bpmn:signal id="Signal_stock" name="stock-updated" />
+  <bpmn:signal id="Signal_cancel" name="order-cancelled" />
+</bpmn:definitions>`
+		const createSignalClient = (activeElementId: string) => ({
+			searchProcessInstances: jest.fn(async () => ({
+				items: [
+					{
+						processInstanceKey: '100',
+						processDefinitionId: 'stock-process',
+						processDefinitionKey: '10',
+						state: 'ACTIVE',
+					},
+				],
+			})),
+			getProcessDefinitionXML: jest.fn(async () => xml),
+			searchElementInstances: jest.fn(async () => ({
+				items: [{ elementId: activeElementId }],
+			})),
+		})
+
+		it('should pass at an active signal catch event', async () => {
+			await assertThat(
+				createSignalClient('stock-updated'),
+				'100'
+			).isWaitingForSignal('stock-updated')
+		})
+
+		it('should pass at an event-based gateway leading to a signal catch event', async () => {
+			await assertThat(createSignalClient('wait'), '100').isWaitingForSignal(
+				'stock-updated'
+			)
+		})
+
+		it('should pass at an activity with a signal boundary event', async () => {
+			await assertThat(createSignalClient('reserve'), '100').isWaitingForSignal(
+				'order-cancelled'
+			)
+		})
+
+		it('should fail if no active element waits for the signal', async () => {
+			await expect(
+				assertThat(createSignalClient('reserve'), '100').isWaitingForSignal(
+					'stock-updated'
+				)
+			).rejects.toThrow(
+				"Timeout waiting for Process instance to wait for signal 'stock-updated' after 200ms"
+			)
+		})
+	})
+
+	describe('incident resolution', () => {
+		const incident = (
+			incidentKey: string,
+			errorMessage: string,
+			state = 'ACTIVE'
+		) => ({
+			incidentKey,
+			errorType: 'JOB_NO_RETRIES',
+			errorMessage,
+			elementId: 'charge-card',
+			elementInstanceKey: `${incidentKey}-element`,
+			jobKey: `${incidentKey}-job`,
+			processInstanceKey: '100',
+			state,
+		})
+		const createIncidentClient = () => ({
+			searchIncidents: jest.fn(async () => ({
+				items: [
+					incident('1', 'Card declined', 'RESOLVED'),
+					incident('2', 'Card declined'),
+					incident('3', 'Service unavailable'),
+				],
+			})),
+			updateElementInstanceVariables: jest.fn(async () => undefined),
+		})
+		const incidentContext = () => ({
+			updateJobRetries: jest.fn(async () => undefined),
+			resolveIncident: jest.fn(async () => undefined),
+		})
+
+		it('should resolve the open incidents with the given message', async () => {
+			const client = createIncidentClient()
+			const context = incidentContext()
+
+			await assertThat(client, '100', context)
+				.hasIncidentWithMessage('Card declined')
+				.thenResolve({ retries: 2, variables: { cardValid: true } })
+
+			expect(client.updateElementInstanceVariables).toHaveBeenCalledTimes(1)
+			expect(client.updateElementInstanceVariables).toHaveBeenCalledWith({
+				elementInstanceKey: '2-element',
+				variables: { cardValid: true },
+			})
+			expect(context.updateJobRetries).toHaveBeenCalledTimes(1)
+			expect(context.updateJobRetries).toHaveBeenCalledWith('2-job', 2)
+			expect(context.resolveIncident).toHaveBeenCalledTimes(1)
+			expect(context.resolveIncident).toHaveBeenCalledWith('2')
+		})
+
+		it('should resolve all open incidents without changing retries by default', async () => {
+			const context = incidentContext()
+
+			await assertThat(createIncidentClient(), '100', context)
+				.hasIncident()
+				.thenResolve()
+
+			expect(context.updateJobRetries).not.toHaveBeenCalled()
+			expect(context.resolveIncident.mock.calls).toEqual([['2'], ['3']])
+		})
+
+		it('should be awaitable like any other assertion', async () => {
+			const context = incidentContext()
+
+			await assertThat(
+				createIncidentClient(),
+				'100',
+				context
+			).hasIncidentWithMessage(/unavailable$/)
+
+			expect(context.resolveIncident).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('variable assertions', () => {
+		const variable = (scopeKey: string, name: string, value: unknown) => ({
+			variableKey: `${scopeKey}-${name}`,
+			scopeKey,
+			processInstanceKey: '100',
+			name,
+			value: JSON.stringify(value),
+		})
+		// Process instance 100 with a subprocess instance 300
+		const createVariableClient = () => ({
+			// eslint-disable-next-line @typescript-eslint/no-explicit-any
+			searchVariables: jest.fn(async ({ filter }: any) => ({
+				items: [
+					variable('100', 'orderId', 'order-1'),
+					variable('100', 'order', {
+						customer: { name: 'Ada', tier: 'gold' },
+						items: [
+							{ sku: 'A1', quantity: 2 },
+							{ sku: 'B2', quantity: 1 },
+						],
+					}),
+					variable('300', 'shipment', { carrier: 'DHL' }),
+				].filter((item) => item.scopeKey === filter.scopeKey),
+			})),
+			searchElementInstances: jest.fn(async () => ({
+				items: [
+					{
+						elementInstanceKey: '200',
+						elementId: 'start',
+						type: 'START_EVENT',
+					},
+					{
+						elementInstanceKey: '300',
+						elementId: 'shipping',
+						type: 'SUB_PROCESS',
+					},
+				],
+			})),
+		})
+
+		it('should compare variables by deep equality with matchers', async () => {
+			await assertThat(createVariableClient(), '100').hasVariables({
+				orderId: expect.any(String),
+				order: {
+					customer: { name: 'Ada', tier: 'gold' },
+					items: expect.arrayContaining([{ sku: 'B2', quantity: 1 }]),
+				},
+			})
+		})
+
+		it('should fail if an object has unexpected keys', async () => {
+			await expect(
+				assertThat(createVariableClient(), '100').hasVariables({
+					order: expect.objectContaining({
+						customer: { name: 'Ada' },
+					}),
+				})
+			).rejects.toThrow('Timeout waiting for Process to have variables')
+		})
+
+		it('should compare objects partially with hasVariablesContaining()', async () => {
+			await assertThat(createVariableClient(), '100').hasVariablesContaining({
+				order: {
+					customer: { name: 'Ada' },
+					items: [{ sku: 'A1' }, { sku: 'B2' }],
+				},
+			})
+		})
+
+		it('should read nested values by path', async () => {
+			const assertion = assertThat(createVariableClient(), '100')
+
+			await assertion.hasVariable('order.items[1].sku', 'B2')
+			await assertion.hasVariable('order.customer', {
+				name: expect.stringMatching(/^A/),
+				tier: 'gold',
+			})
+			await expect(
+				assertion.hasVariable('order.items[2].sku', 'C3')
+			).rejects.toThrow(
+				`Timeout waiting for Process to have variable 'order.items[2].sku': "C3"`
+			)
+		})
+
+		it('should report the last failure of a predicate', async () => {
+			const assertion = assertThat(createVariableClient(), '100')
+
+			await assertion.hasVariableSatisfying('order.items', (items) => {
+				expect(items).toHaveLength(2)
+			})
+			await expect(
+				assertion.hasVariableSatisfying(
+					'order.items[0].quantity',
+					(quantity) => quantity > 5
+				)
+			).rejects.toThrow(
+				"Process variable 'order.items[0].quantity' to satisfy the predicate (predicate returned false for 2)"
+			)
+		})
+
+		it('should check local variables of an element instance', async () => {
+			const assertion = assertThat(createVariableClient(), '100')
+
+			await assertion.hasLocalVariables('shipping', {
+				shipment: { carrier: expect.any(String) },
+			})
+			await expect(
+				assertion.hasLocalVariables('start', { shipment: { carrier: 'DHL' } })
+			).rejects.toThrow(
+				"Timeout waiting for Element with id 'start' to have local variables"
+			)
+		})
+
+		it('should only check variables of the root scope in process assertions', async () => {
+			await expect(
+				assertThat(createVariableClient(), '100').hasVariableNames('shipment')
+			).rejects.toThrow(
+				'Timeout waiting for Process to have variable names: shipment'
+			)
+		})
+	})
+
+	describe('element selectors', () => {
+		it('should select elements by id, name, type or predicate', async () => {
+			await assertThat(createElementClient(), '100').hasCompletedElements(
+				'check-stock',
+				{ type: 'name', value: 'Charge card' },
+				{ type: 'type', value: 'startEvent' },
+				{
+					type: 'custom',
+					value: (element) =>
+						(element as { elementName: string }).elementName.startsWith('Pack'),
+				}
+			)
+			await assertThat(createElementClient(), '100').hasActiveElements({
+				type: 'type',
+				value: 'userTask',
+			})
+		})
+
+		it('should resolve element ids through the configured element selector', async () => {
+			const byName = (name: string): ElementSelector => ({
+				type: 'name',
+				value: name,
+			})
+			const assertion = new ProcessInstanceAssert(
+				fakeContext(createElementClient()),
+				'100',
+				byName,
+				200,
+				10
+			)
+
+			await assertion.hasCompletedElements('Check stock')
+			await assertion.hasActiveElements('Approve order')
+			await expect(
+				assertion.hasCompletedElements('check-stock')
+			).rejects.toThrow(
+				"Timeout waiting for Element with name 'check-stock' to be completed"
+			)
+		})
+	})
+
+	describe('hasCompletedElementsInOrder', () => {
+		it('should pass for elements completed in the given relative order', async () => {
+			await assertThat(
+				createElementClient(),
+				'100'
+			).hasCompletedElementsInOrder('start', 'check-stock', 'pack')
+		})
+
+		it('should order elements by end date rather than by key', async () => {
+			await expect(
+				assertThat(createElementClient(), '100').hasCompletedElementsInOrder(
+					'charge-card',
+					'check-stock'
+				)
+			).rejects.toThrow(
+				"Timeout waiting for Elements to be completed in order: with id 'charge-card', with id 'check-stock' (actual order: start, check-stock, charge-card, pack, pack, pack) after 200ms"
+			)
+		})
+	})
+
+	describe('visit counts', () => {
+		it('should count the inner instances of a multi-instance element', async () => {
+			const assertion = assertThat(createElementClient(), '100')
+
+			await assertion.hasCompletedElement('pack', { times: 2 })
+			await assertion.hasCompletedElement('charge-card')
+			await expect(
+				assertion.hasCompletedElement('pack', { times: 3 })
+			).rejects.toThrow(
+				"Timeout waiting for Element with id 'pack' to be completed 3 time(s), but was completed 2 time(s)"
+			)
+		})
+
+		it('should pass hasNotPassed() for elements and flows that were not taken', async () => {
+			await assertThat(createElementClient(), '100')
+				.remainsFor(30)
+				.hasNotPassed('reject-order')
+		})
+
+		it('should fail hasNotPassed() for a passed element in any state', async () => {
+			await expect(
+				assertThat(createElementClient(), '100')
+					.remainsFor(30)
+					.hasNotPassed('approve')
+			).rejects.toThrow(
+				"Expected Process instance not to pass element with id 'approve'"
+			)
+		})
+
+		it('should fail hasNotPassed() for a taken sequence flow', async () => {
+			await expect(
+				assertThat(createElementClient(), '100')
+					.remainsFor(30)
+					.hasNotPassed('to-charge-card')
+			).rejects.toThrow(
+				"Expected Process instance not to pass element with id 'to-charge-card'"
+			)
+		})
+	})
+
+	describe('hasChildProcessInstance', () => {
+		const createChildClient = (childCount: number) =>
+			createClient([
+				instance('100'),
+				...Array.from({ length: childCount }, (_, index) =>
+					instance(String(201 + index), {
+						processDefinitionId: 'payment-process',
+						processDefinitionKey: '20',
+						parentProcessInstanceKey: '100',
+						state: 'COMPLETED',
+					})
+				),
+			])
+
+		it('should return an assertion for the child process instance', async () => {
+			const client = createChildClient(1)
+
+			const child = await assertThat(client, '100').hasChildProcessInstance(
+				'payment-process'
+			)
+			await child.isCompleted()
+
+			expect(client.searchProcessInstances).toHaveBeenLastCalledWith(
+				expect.objectContaining({ filter: { processInstanceKey: '201' } })
+			)
+		})
+
+		it('should fail if several child process instances exist', async () => {
+			await expect(
+				assertThat(createChildClient(2), '100').hasChildProcessInstance(
+					'payment-process'
+				)
+			).rejects.toThrow(
+				"Expected one child process instance 'payment-process', but found 2"
+			)
+		})
+
+		it('should select the latest child process instance on request', async () => {
+			const client = createChildClient(2)
+
+			const child = await assertThat(client, '100').hasChildProcessInstance(
+				'payment-process',
+				{ match: 'latest' }
+			)
+			await child.isCompleted()
+
+			expect(client.searchProcessInstances).toHaveBeenLastCalledWith(
+				expect.objectContaining({ filter: { processInstanceKey: '202' } })
+			)
+		})
+
+		it('should wait for a child process instance', async () => {
+			await expect(
+				assertThat(createChildClient(0), '100').hasChildProcessInstance(
+					'payment-process'
+				)
+			).rejects.toThrow(
+				"Timeout waiting for Process instance to have a child process instance 'payment-process' after 200ms"
+			)
+		})
+	})
+
+	describe('failure snapshot', () => {
+		/**
+		 * Creates a fake REST client for the active process instance 100 of
+		 * createElementClient(), with variables, an incident and a job.
+		 */
+		const createSnapshotClient = () => ({
+			...createElementClient(),
+			searchProcessInstances: jest.fn(async () => ({
+				items: [
+					{
+						processInstanceKey: '100',
+						processDefinitionId: 'order-process',
+						state: 'ACTIVE',
+					},
+				],
+			})),
+			searchVariables: jest.fn(async () => ({
+				items: [
+					{ name: 'orderId', value: '"42"' },
+					{ name: 'payload', value: 'x'.repeat(300) },
+				],
+			})),
+			searchIncidents: jest.fn(async () => ({
+				items: [
+					{
+						errorType: 'JOB_NO_RETRIES',
+						elementId: 'charge-card',
+						errorMessage: 'No more retries left',
+					},
+				],
+			})),
+			// eslint-disable-next-line @typescript-eslint/no-explicit-any
+			callApiEndpoint: jest.fn(async ({ urlPath }: any) => ({
+				items:
+					urlPath === 'jobs/search'
+						? [{ type: 'payment', elementId: 'charge-card', retries: 0 }]
+						: [],
+			})),
+		})
+
+		const failureOf = async (promise: Promise<unknown>): Promise<string> => {
+			try {
+				await promise
+			} catch (error) {
+				return (error as Error).message
+			}
+			throw new Error('Expected the assertion to fail')
+		}
+
+		it('should describe the process state when an assertion times out', async () => {
+			const message = await failureOf(
+				assertThat(createSnapshotClient(), '100').isCompleted()
+			)
+
+			expect(message).toContain(
+				'Timeout waiting for Process instance 100 to be completed after 200ms'
+			)
+			expect(message).toContain('Process instance 100:')
+			expect(message).toContain('  State: ACTIVE (order-process)')
+			expect(message).toContain('  Active elements: approve')
+			expect(message).toContain(
+				'  Completed elements: start, charge-card, check-stock, pack'
+			)
+			expect(message).toContain('    - orderId = "42"')
+			expect(message).toContain('    - payload = ' + 'x'.repeat(200) + '...')
+			expect(message).not.toContain('x'.repeat(201))
+			expect(message).toContain(
+				'  Open incidents: [JOB_NO_RETRIES] charge-card: No more retries left'
+			)
+			expect(message).toContain(
+				'  Active jobs: payment (charge-card), retries: 0'
+			)
+		})
+
+		it('should report a section that cannot be fetched as unavailable', async () => {
+			const client = {
+				...createSnapshotClient(),
+				searchVariables: jest.fn(async () => {
+					throw new Error('Request failed with status code 500')
+				}),
+			}
+
+			const message = await failureOf(assertThat(client, '100').isCompleted())
+
+			expect(message).toMatch(
+				/^Timeout waiting for Process instance 100 to be completed after 200ms/
+			)
+			expect(message).toContain(
+				'  Variables: (unavailable: Request failed with status code 500)'
+			)
+			expect(message).toContain('  State: ACTIVE (order-process)')
+			expect(message).toContain('  Active jobs: payment (charge-card)')
+		})
+	})
+})
@@ -0,0 +1,375 @@
+import { UserTaskAssert } from '../../source/assertions/UserTaskAssert'
+import { UserTaskSelector } from '../../source/types'
+import { fakeContext } from '../fakeContext'
+
+interface FakeTask {
+	userTaskKey: string
+	elementId: string
+	processInstanceKey: string
+	state: 'CREATED' | 'COMPLETED' | 'CANCELED' | 'FAILED'
+	creationDate: string
+	assignee?: string
+	name?: string
+	formKey?: string
+	candidateGroups?: string[]
+	candidateUsers?: string[]
+	dueDate?: string
+	followUpDate?: string
+	priority?: number
+	customHeaders?: Record<string, string>
+}
+
+/**
+ * Creates a fake REST client holding the given user tasks. Completing a task
+ * that is not active fails like the REST API does.
+ */
+const createClient = (tasks: FakeTask[]) => ({
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	searchUserTasks: jest.fn(async ({ filter }: any) => ({
+		items: tasks
+			.filter(
+				(task) =>
+					(!filter.state || task.state === filter.state) &&
+					(!filter.elementId || task.elementId === filter.elementId) &&
+					(!filter.userTaskKey || task.userTaskKey === filter.userTaskKey)
+			)
+			.sort((a, b) => b.creationDate.localeCompare(a.creationDate)),
+	})),
+	getUserTask: jest.fn(async (userTaskKey: string) => ({
+		...tasks.find((task) => task.userTaskKey === userTaskKey),
+	})),
+	completeUserTask: jest.fn(
+		async ({ userTaskKey }: { userTaskKey: string }) => {
+			const task = tasks.find((task) => task.userTaskKey === userTaskKey)
+			if (task?.state !== 'CREATED') {
+				throw new Error('Request failed with status code 400')
+			}
+			task.state = 'COMPLETED'
+		}
+	),
+	assignUserTask: jest.fn(
+		async ({
+			userTaskKey,
+			assignee,
+		}: {
+			userTaskKey: string
+			assignee: string
+		}) => {
+			const task = tasks.find((task) => task.userTaskKey === userTaskKey)
+			if (task) {
+				task.assignee = assignee
+			}
+		}
+	),
+	unassignUserTask: jest.fn(
+		async ({ userTaskKey }: { userTaskKey: string }) => {
+			const task = tasks.find((task) => task.userTaskKey === userTaskKey)
+			if (task) {
+				delete task.assignee
+			}
+		}
+	),
+	callApiEndpoint: jest.fn(async (): Promise<unknown> => ''),
+})
+
+const assertThat = (
+	client: ReturnType<typeof createClient>,
+	selector: UserTaskSelector
+) => new UserTaskAssert(fakeContext(client), selector, 200, 10)
+
+describe('UserTaskAssert', () => {
+	const reviewTasks = (): FakeTask[] => [
+		{
+			userTaskKey: '1',
+			elementId: 'review',
+			processInstanceKey: '100',
+			state: 'CREATED',
+			creationDate: '2025-01-01T10:00:00.000Z',
+		},
+		{
+			userTaskKey: '2',
+			elementId: 'review',
+			processInstanceKey: '100',
+			state: 'CREATED',
+			creationDate: '2025-01-01T10:00:01.000Z',
+		},
+	]
+
+	it('should complete each active instance of a multi-instance task', async () => {
+		const tasks = reviewTasks()
+		const client = createClient(tasks)
+		const review = assertThat(client, { type: 'elementId', value: 'review' })
+
+		await review.complete({ approved: true })
+		await review.isCompleted()
+		await review.exists()
+		await review.complete({ approved: false })
+
+		expect(client.completeUserTask).toHaveBeenNthCalledWith(1, {
+			userTaskKey: '2',
+			variables: { approved: true },
+			action: undefined,
+		})
+		expect(client.completeUserTask).toHaveBeenNthCalledWith(2, {
+			userTaskKey: '1',
+			variables: { approved: false },
+			action: undefined,
+		})
+		await expect(review.exists()).rejects.toThrow(
+			'Timeout waiting for User task to exist'
+		)
+	})
+
+	it('should assign and complete the active task only', async () => {
+		const tasks = reviewTasks()
+		tasks[1].state = 'COMPLETED'
+		const client = createClient(tasks)
+
+		await assertThat(client, {
+			type: 'elementId',
+			value: 'review',
+		}).completeAs('alice')
+
+		expect(client.assignUserTask).toHaveBeenCalledWith(
+			expect.objectContaining({ userTaskKey: '1', assignee: 'alice' })
+		)
+		expect(tasks.map((task) => task.state)).toEqual(['COMPLETED', 'COMPLETED'])
+	})
+
+	it('should not find canceled tasks when none was canceled', async () => {
+		const client = createClient(reviewTasks())
+
+		await expect(
+			assertThat(client, { type: 'elementId', value: 'review' }).isCanceled()
+		).rejects.toThrow('Timeout waiting for User task to be canceled')
+	})
+
+	it('should not consider a missing task unassigned', async () => {
+		const client = createClient(reviewTasks())
+
+		await expect(
+			assertThat(client, { type: 'elementId', value: 'approve' }).isUnassigned()
+		).rejects.toThrow('Timeout waiting for User task to be unassigned')
+		await assertThat(client, {
+			type: 'elementId',
+			value: 'review',
+		}).isUnassigned()
+	})
+
+	describe('selectors and properties', () => {
+		const approvalTask = (): FakeTask => ({
+			userTaskKey: '3',
+			elementId: 'approve',
+			processInstanceKey: '100',
+			state: 'CREATED',
+			creationDate: '2025-01-01T10:00:02.000Z',
+			name: 'Approve order',
+			formKey: 'camunda-forms:bpmn:approval-form',
+			candidateGroups: ['managers', 'finance'],
+			candidateUsers: ['bob'],
+			dueDate: '2025-01-03T10:00:00.000+0000',
+			followUpDate: '2025-01-02T10:00:00.000+0000',
+			priority: 75,
+			customHeaders: { escalation: 'true' },
+		})
+
+		it('should select tasks by properties the search cannot filter by', async () => {
+			const client = createClient([...reviewTasks(), approvalTask()])
+
+			await assertThat(client, {
+				type: 'name',
+				value: 'Approve order',
+			}).exists()
+			await assertThat(client, {
+				type: 'formKey',
+				value: 'camunda-forms:bpmn:approval-form',
+			}).exists()
+			await assertThat(client, {
+				type: 'custom',
+				value: (task) => task.priority === 75,
+			}).exists()
+			await expect(
+				assertThat(client, { type: 'name', value: 'Review order' }).exists()
+			).rejects.toThrow('Timeout waiting for User task to exist')
+		})
+
+		it('should only get the details of the selected task', async () => {
+			// Created before the review tasks, so it is the last search result
+			const client = createClient([
+				...reviewTasks(),
+				{ ...approvalTask(), creationDate: '2025-01-01T09:00:00.000Z' },
+			])
+
+			await assertThat(client, {
+				type: 'name',
+				value: 'Approve order',
+			}).hasPriority(75)
+
+			expect(client.searchUserTasks).toHaveBeenCalledTimes(1)
+			expect(client.getUserTask).toHaveBeenCalledTimes(1)
+			expect(client.getUserTask).toHaveBeenCalledWith('3')
+		})
+
+		it('should assert the properties of the task', async () => {
+			const client = createClient([approvalTask()])
+			const approval = assertThat(client, {
+				type: 'elementId',
+				value: 'approve',
+			})
+
+			await approval.hasName('Approve order')
+			await approval.hasFormKey('camunda-forms:bpmn:approval-form')
+			await approval.hasCandidateGroups('finance')
+			await approval.hasCandidateUsers('bob')
+			await approval.hasDueDate(new Date('2025-01-03T10:00:00.000Z'))
+			await approval.hasFollowUpDate('2025-01-02T11:00:00+01:00')
+			await approval.hasPriority(75)
+			await approval.hasCustomHeaders({ escalation: 'true' })
+		})
+
+		it('should fail for other property values', async () => {
+			const client = createClient([approvalTask()])
+			const approval = assertThat(client, {
+				type: 'elementId',
+				value: 'approve',
+			})
+
+			await expect(approval.hasCandidateGroups('sales')).rejects.toThrow(
+				'Timeout waiting for User task to have candidate groups: sales'
+			)
+			await expect(
+				approval.hasDueDate('2025-01-04T10:00:00.000Z')
+			).rejects.toThrow(
+				'Timeout waiting for User task to have due date 2025-01-04T10:00:00.000Z'
+			)
+		})
+	})
+
+	describe('actions', () => {
+		it('should unassign the task', async () => {
+			const tasks = reviewTasks()
+			tasks[1].assignee = 'alice'
+			const client = createClient(tasks)
+			const review = assertThat(client, { type: 'assignee', value: 'alice' })
+
+			await review.isAssignedTo('alice')
+			await review.unassign()
+
+			expect(client.unassignUserTask).toHaveBeenCalledWith({ userTaskKey: '2' })
+			expect(tasks[1].assignee).toBeUndefined()
+		})
+
+		it('should update only the given properties', async () => {
+			const client = createClient(reviewTasks())
+
+			await assertThat(client, {
+				type: 'elementId',
+				value: 'review',
+			}).update({
+				dueDate: new Date('2025-01-03T10:00:00.000Z'),
+				priority: 80,
+			})
+
+			expect(client.callApiEndpoint).toHaveBeenCalledWith({
+				method: 'PATCH',
+				urlPath: 'user-tasks/2',
+				body: {
+					changeset: {
+						dueDate: '2025-01-03T10:00:00.000Z',
+						followUpDate: undefined,
+						priority: 80,
+					},
+				},
+				json: false,
+			})
+		})
+
+		it('should record the action of a completion', async () => {
+			const client = createClient(reviewTasks())
+
+			await assertThat(client, {
+				type: 'elementId',
+				value: 'review',
+			}).complete({ approved: true }, 'approve')
+
+			expect(client.completeUserTask).toHaveBeenCalledWith({
+				userTaskKey: '2',
+				variables: { approved: true },
+				action: 'approve',
+			})
+		})
+
+		it('should explain rejected actions', async () => {
+			const client = createClient(reviewTasks())
+			client.callApiEndpoint.mockRejectedValue(
+				new Error('Request failed with status code 403')
+			)
+
+			await expect(
+				assertThat(client, { type: 'elementId', value: 'review' }).update({
+					priority: 80,
+				})
+			).rejects.toThrow(
+				'Cannot update user task: Permission denied. Request failed with status code 403'
+			)
+			await expect(
+				assertThat(client, { type: 'elementId', value: 'approve' }).unassign()
+			).rejects.toThrow('Cannot unassign user task: task not found')
+		})
+	})
+
+	describe('linked forms', () => {
+		const linkedForm = {
+			formId: 'review-form',
+			formKey: '700',
+			version: 1,
+			// The REST API returns the schema as a JSON string
+			schema: JSON.stringify({
+				id: 'review-form',
+				components: [
+					{ type: 'checkbox', key: 'approved', validate: { required: true } },
+					{ type: 'textfield', key: 'comment' },
+				],
+			}),
+		}
+
+		it('should assert the linked form of the task', async () => {
+			const client = createClient(reviewTasks())
+			client.callApiEndpoint.mockResolvedValue(linkedForm)
+			const review = assertThat(client, { type: 'elementId', value: 'review' })
+
+			await review.hasLinkedForm('review-form')
+
+			expect(client.callApiEndpoint).toHaveBeenCalledWith({
+				method: 'GET',
+				urlPath: 'user-tasks/2/form',
+			})
+			await expect(review.hasLinkedForm('approval-form')).rejects.toThrow(
+				'Timeout waiting for User task to have linked form approval-form (was: review-form)'
+			)
+		})
+
+		it('should report tasks without a linked form', async () => {
+			const client = createClient(reviewTasks())
+			const review = assertThat(client, { type: 'elementId', value: 'review' })
+
+			await expect(review.hasLinkedForm('review-form')).rejects.toThrow(
+				'Timeout waiting for User task to have linked form review-form (was: none)'
+			)
+			await expect(review.validateFormData({ approved: true })).rejects.toThrow(
+				'Cannot validate form data: user task review has no linked form'
+			)
+		})
+
+		it('should validate form data against the linked form', async () => {
+			const client = createClient(reviewTasks())
+			client.callApiEndpoint.mockResolvedValue(linkedForm)
+			const review = assertThat(client, { type: 'elementId', value: 'review' })
+
+			await review.validateFormData({ approved: true, comment: 'Looks good' })
+			await expect(review.validateFormData({ comment: 42 })).rejects.toThrow(
+				"Form data does not match form review-form:\n  - Field 'approved' is required\n  - Field 'comment' must be of type string, got number"
+			)
+		})
+	})
+})
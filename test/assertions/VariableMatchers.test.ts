@@ -0,0 +1,106 @@
+import { VariableMatchers } from '../../source/assertions/VariableMatchers'
+
+describe('VariableMatchers', () => {
+	describe('matches', () => {
+		it('should compare objects and arrays by deep equality', () => {
+			expect(
+				VariableMatchers.matches(
+					{ order: { items: [{ sku: 'A1', quantity: 2 }] } },
+					{ order: { items: [{ sku: 'A1', quantity: 2 }] } }
+				)
+			).toBe(true)
+			expect(VariableMatchers.matches([1, 2], [1, 2, 3])).toBe(false)
+			expect(VariableMatchers.matches({ a: 1, b: 2 }, { a: 1 })).toBe(false)
+			expect(VariableMatchers.matches(null, {})).toBe(false)
+		})
+
+		it('should apply Jest asymmetric matchers at any level', () => {
+			expect(
+				VariableMatchers.matches(
+					{ id: 'order-1', total: 42, tags: ['new'] },
+					{
+						id: expect.any(String),
+						total: expect.any(Number),
+						tags: expect.arrayContaining(['new']),
+					}
+				)
+			).toBe(true)
+			expect(
+				VariableMatchers.matches(
+					{ customer: { name: 'Ada', tier: 'gold' } },
+					{ customer: expect.objectContaining({ tier: 'gold' }) }
+				)
+			).toBe(true)
+			expect(VariableMatchers.matches(42, expect.any(String))).toBe(false)
+		})
+	})
+
+	describe('matchesPartially', () => {
+		it('should only require the expected keys, recursively', () => {
+			const actual = {
+				order: { id: 'order-1', items: [{ sku: 'A1', quantity: 2 }] },
+				status: 'open',
+			}
+
+			expect(
+				VariableMatchers.matchesPartially(actual, {
+					order: { items: [{ sku: 'A1' }] },
+				})
+			).toBe(true)
+			expect(
+				VariableMatchers.matchesPartially(actual, { order: { id: 'order-2' } })
+			).toBe(false)
+			expect(VariableMatchers.matchesPartially(actual, { missing: 1 })).toBe(
+				false
+			)
+		})
+	})
+
+	describe('readPath', () => {
+		const variables = {
+			order: {
+				items: [{ sku: 'A1' }, { sku: 'B2' }],
+				'shipping-address': { city: 'Berlin' },
+				note: null,
+			},
+		}
+
+		it('should read nested properties and array items', () => {
+			expect(
+				VariableMatchers.readPath(variables, 'order.items[1].sku')
+			).toEqual({ found: true, value: 'B2' })
+			expect(
+				VariableMatchers.readPath(variables, "$.order['shipping-address'].city")
+			).toEqual({ found: true, value: 'Berlin' })
+			expect(VariableMatchers.readPath(variables, 'order.note')).toEqual({
+				found: true,
+				value: null,
+			})
+		})
+
+		it('should report missing values as not found', () => {
+			expect(VariableMatchers.readPath(variables, 'order.items[5]').found).toBe(
+				false
+			)
+			expect(
+				VariableMatchers.readPath(variables, 'order.note.text').found
+			).toBe(false)
+			expect(VariableMatchers.readPath(variables, 'customer').found).toBe(false)
+		})
+
+		it('should reject malformed paths', () => {
+			expect(() => VariableMatchers.parsePath('order..items')).toThrow(
+				"Invalid variable path 'order..items'"
+			)
+			expect(() => VariableMatchers.parsePath('')).toThrow()
+		})
+	})
+
+	describe('describe', () => {
+		it('should print asymmetric matchers like Jest', () => {
+			expect(
+				VariableMatchers.describe({ id: expect.any(String), total: 42 })
+			).toBe('{"id":"Any<String>","total":42}')
+		})
+	})
+})
@@ -0,0 +1,15 @@
+import { CamundaProcessTestContext } from '../source/runtime/CamundaProcessTestContext'
+
+/**
+ * Creates a test context whose REST client is the given fake, for unit
+ * testing assertions without a Camunda engine. Other context methods can be
+ * provided as overrides.
+ */
+export const fakeContext = (
+	client: object,
+	overrides: object = {}
+): CamundaProcessTestContext =>
+	({
+		getClient: () => ({ getCamundaRestClient: () => client }),
+		...overrides,
+	}) as unknown as CamundaProcessTestContext
@@ -0,0 +1,361 @@
+import fs from 'fs'
+import path from 'path'
+
+import type { CamundaRestApiTypes, CamundaRestClient } from '@camunda8/sdk'
+
+import { CamundaProcessCoverage } from '../../source/runtime/CamundaProcessCoverage'
+
+const readResource = (name: string) =>
+	fs.readFileSync(
+		path.join(__dirname, '../../examples/resources', name),
+		'utf-8'
+	)
+
+describe('CamundaProcessCoverage', () => {
+	describe('parseBpmn', () => {
+		it('should extract flow nodes and sequence flows of a process', () => {
+			const [model] = CamundaProcessCoverage.parseBpmn(
+				readResource('simple-process.bpmn')
+			)
+
+			expect(model.processDefinitionId).toBe('simple-process')
+			expect(model.name).toBe('Simple Process')
+			expect(model.elements.map((element) => element.id)).toEqual([
+				'start-event',
+				'process-task',
+				'end-event',
+			])
+			expect(model.elements[1]).toEqual({
+				id: 'process-task',
+				name: 'Process Data',
+				type: 'serviceTask',
+			})
+			expect(model.sequenceFlows).toEqual([
+				{
+					id: 'Flow_1',
+					name: undefined,
+					sourceRef: 'start-event',
+					targetRef: 'process-task',
+				},
+				{
+					id: 'Flow_2',
+					name: undefined,
+					sourceRef: 'process-task',
+					targetRef: 'end-event',
+				},
+			])
+		})
+
+		it('should include boundary events and ignore diagram elements', () => {
+			const [model] = CamundaProcessCoverage.parseBpmn(
+				readResource('error-process.bpmn')
+			)
+
+			const ids = model.elements.map((element) => element.id)
+			expect(ids).toContain('error-boundary-event')
+			expect(ids).not.toContain('error-process_di')
+			expect(model.sequenceFlows).toHaveLength(4)
+		})
+
+		it('should separate multiple processes in one document', () => {
+			const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<definitions xmlns="http://www.omg.org/spec/BPMN/20100524/MODEL">
+	<process id="first"><startEvent id="a" /></process>
+	<process id="second"><startEvent id="b" /><endEvent id="c" /></process>
+</definitions>`
+
+			const models = CamundaProcessCoverage.parseBpmn(xml)
+
+			expect(models.map((model) => model.processDefinitionId)).toEqual([
+				'first',
+				'second',
+			])
+			expect(models[1].elements.map((element) => element.id)).toEqual([
+				'b',
+				'c',
+			])
+		})
+
+		it('should resolve signal names and boundary event attachments', () => {
+			const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL">
+	<bpmn:process id="escalation">
+		<bpmn:userTask id="review" />
+		<bpmn:boundaryEvent id="cancelled" attachedToRef="review">
+			<bpmn:signalEventDefinition id="SignalDef_1" signalRef="Signal_cancel" />
+		</bpmn:boundaryEvent>
+		<bpmn:intermediateCatchEvent id="wait-for-escalation">
+			<bpmn:outgoing>Flow_1</bpmn:outgoing>
+			<bpmn:signalEventDefinition id="SignalDef_2" signalRef="Signal_escalate" />
+		</bpmn:intermediateCatchEvent>
+		<bpmn:endEvent id="end" />
+	</bpmn:process>
+	<bpmn:signal id="Signal_cancel" name="order-cancelled" />
+	<bpmn:signal id="Signal_escalate" name="escalate" />
+</bpmn:definitions>`
+
+			const [model] = CamundaProcessCoverage.parseBpmn(xml)
+
+			expect(model.elements).toEqual([
+				{ id: 'review', type: 'userTask' },
+				{
+					id: 'cancelled',
+					type: 'boundaryEvent',
+					attachedToRef: 'review',
+					signalName: 'order-cancelled',
+				},
+				{
+					id: 'wait-for-escalation',
+					type: 'intermediateCatchEvent',
+					signalName: 'escalate',
+				},
+				{ id: 'end', type: 'endEvent' },
+			])
+		})
+	})
+
+	describe('calculateCoverage', () => {
+		const [model] = CamundaProcessCoverage.parseBpmn(
+			readResource('simple-process.bpmn')
+		)
+
+		it('should compute the ratio of covered elements and sequence flows', () => {
+			const coverage = CamundaProcessCoverage.calculateCoverage(
+				model,
+				['start-event', 'process-task'],
+				['Flow_1']
+			)
+
+			expect(coverage.completedElements).toEqual([
+				'start-event',
+				'process-task',
+			])
+			expect(coverage.takenSequenceFlows).toEqual(['Flow_1'])
+			expect(coverage.coverage).toBeCloseTo(3 / 5)
+		})
+
+		it('should ignore ids that are not part of the model', () => {
+			const coverage = CamundaProcessCoverage.calculateCoverage(
+				model,
+				['start-event', 'unknown-element', 'simple-process'],
+				['unknown-flow']
+			)
+
+			expect(coverage.completedElements).toEqual(['start-event'])
+			expect(coverage.takenSequenceFlows).toEqual([])
+			expect(coverage.coverage).toBeCloseTo(1 / 5)
+		})
+
+		it('should aggregate coverage weighted by process size', () => {
+			const full = CamundaProcessCoverage.calculateCoverage(
+				model,
+				['start-event', 'process-task', 'end-event'],
+				['Flow_1', 'Flow_2']
+			)
+			const empty = CamundaProcessCoverage.calculateCoverage(model, [], [])
+
+			expect(CamundaProcessCoverage.aggregateCoverage([full, empty])).toBe(0.5)
+			expect(CamundaProcessCoverage.aggregateCoverage([])).toBe(0)
+		})
+	})
+
+	describe('checkThresholds', () => {
+		const [model] = CamundaProcessCoverage.parseBpmn(
+			readResource('simple-process.bpmn')
+		)
+		const report = {
+			suiteName: 'suite',
+			generatedAt: new Date().toISOString(),
+			coverage: 0.6,
+			processes: [
+				CamundaProcessCoverage.calculateCoverage(
+					model,
+					['start-event', 'process-task'],
+					['Flow_1']
+				),
+			],
+		}
+
+		it('should report processes below the global threshold', () => {
+			expect(
+				CamundaProcessCoverage.checkThresholds(report, { global: 80 })
+			).toEqual([
+				{ processDefinitionId: 'simple-process', threshold: 80, actual: 60 },
+			])
+			expect(
+				CamundaProcessCoverage.checkThresholds(report, { global: 60 })
+			).toEqual([])
+		})
+
+		it('should prefer process-specific thresholds over the global one', () => {
+			expect(
+				CamundaProcessCoverage.checkThresholds(
+					{ ...report, coverage: 0.9 },
+					{ global: 80, processes: { 'simple-process': 50 } }
+				)
+			).toEqual([])
+			expect(
+				CamundaProcessCoverage.checkThresholds(report, {
+					processes: { 'simple-process': 100 },
+				})
+			).toHaveLength(1)
+		})
+
+		it('should check the overall coverage against the overall threshold', () => {
+			expect(
+				CamundaProcessCoverage.checkThresholds(report, { overall: 80 })
+			).toEqual([{ threshold: 80, actual: 60 }])
+		})
+
+		it('should not check the overall coverage against the global threshold', () => {
+			// A process exempted from the global threshold must not fail the suite
+			expect(
+				CamundaProcessCoverage.checkThresholds(report, {
+					global: 80,
+					processes: { 'simple-process': 0 },
+				})
+			).toEqual([])
+		})
+
+		it('should tell whether thresholds are configured', () => {
+			expect(CamundaProcessCoverage.hasThresholds({})).toBe(false)
+			expect(CamundaProcessCoverage.hasThresholds({ global: 0 })).toBe(false)
+			expect(CamundaProcessCoverage.hasThresholds({ overall: 50 })).toBe(true)
+			expect(
+				CamundaProcessCoverage.hasThresholds({
+					processes: { 'simple-process': 0 },
+				})
+			).toBe(true)
+		})
+
+		it('should not fail without thresholds', () => {
+			expect(CamundaProcessCoverage.checkThresholds(report, {})).toEqual([])
+		})
+	})
+
+	describe('collect', () => {
+		const createCoverage = () => {
+			const coverage = new CamundaProcessCoverage()
+			coverage.trackDeployment(
+				{
+					processes: [
+						{
+							processDefinitionId: 'simple-process',
+							processDefinitionKey: '10',
+							resourceName: 'simple-process.bpmn',
+						},
+					],
+				} as unknown as CamundaRestApiTypes.DeployResourceResponse,
+				[path.join(__dirname, '../../examples/resources/simple-process.bpmn')]
+			)
+			return coverage
+		}
+
+		it('should collect the tracked instances and their child instances', async () => {
+			// More element instances than fit on one page, most of them repeated
+			const elementInstances = [
+				{ processDefinitionId: 'simple-process', elementId: 'start-event' },
+				...Array.from({ length: 1000 }, () => ({
+					processDefinitionId: 'simple-process',
+					elementId: 'process-task',
+				})),
+				{ processDefinitionId: 'simple-process', elementId: 'end-event' },
+			]
+			// Instance 100 was started by the suite, 200 by its call activity and
+			// 300 by a call activity of 200
+			const children: Record<string, string[]> = {
+				'100': ['200'],
+				'200': ['300'],
+			}
+			const client = {
+				searchProcessInstances: jest.fn(
+					async ({
+						filter,
+					}: {
+						filter: { parentProcessInstanceKey: string }
+					}) => {
+						const items = (children[filter.parentProcessInstanceKey] ?? []).map(
+							(processInstanceKey) => ({ processInstanceKey })
+						)
+						return { items, page: { totalItems: items.length } }
+					}
+				),
+				searchElementInstances: jest.fn(
+					async ({
+						filter,
+						page,
+					}: {
+						filter: { processInstanceKey: string }
+						page: { from: number; limit: number }
+					}) => {
+						const items =
+							filter.processInstanceKey === '300' ? elementInstances : []
+						return {
+							items: items.slice(page.from, page.from + page.limit),
+							page: { totalItems: items.length },
+						}
+					}
+				),
+				callApiEndpoint: jest.fn(async () => ({
+					items: [
+						{ processDefinitionId: 'simple-process', elementId: 'Flow_1' },
+						{ processDefinitionId: 'simple-process', elementId: 'Flow_2' },
+					],
+				})),
+			}
+			const coverage = createCoverage()
+			coverage.trackProcessInstance('100')
+
+			const report = await coverage.collect(
+				client as unknown as CamundaRestClient,
+				'suite'
+			)
+
+			expect(client.searchElementInstances).toHaveBeenCalledWith(
+				expect.objectContaining({
+					filter: { processInstanceKey: '300', state: 'COMPLETED' },
+				})
+			)
+			expect(
+				client.callApiEndpoint.mock.calls.map(
+					([request]: unknown[]) => (request as { urlPath: string }).urlPath
+				)
+			).toEqual([
+				'process-instances/100/sequence-flows',
+				'process-instances/200/sequence-flows',
+				'process-instances/300/sequence-flows',
+			])
+			expect(report.coverage).toBe(1)
+		})
+
+		it('should not count instances the suite did not start', async () => {
+			const client = {
+				searchProcessInstances: jest.fn(),
+				searchElementInstances: jest.fn(),
+				callApiEndpoint: jest.fn(),
+			}
+
+			const report = await createCoverage().collect(
+				client as unknown as CamundaRestClient,
+				'suite'
+			)
+
+			expect(client.searchElementInstances).not.toHaveBeenCalled()
+			expect(report.coverage).toBe(0)
+		})
+
+		it('should fail when coverage cannot be queried', async () => {
+			const client = {
+				searchProcessInstances: jest.fn(async () => {
+					throw new Error('Request failed with status code 500')
+				}),
+			}
+			const coverage = createCoverage()
+			coverage.trackProcessInstance('100')
+
+			await expect(
+				coverage.collect(client as unknown as CamundaRestClient, 'suite')
+			).rejects.toThrow('500')
+		})
+	})
+})
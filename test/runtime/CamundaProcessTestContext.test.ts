@@ -0,0 +1,159 @@
+import { Camunda8 } from '@camunda8/sdk'
+
+import { CamundaProcessTestContext } from '../../source/runtime/CamundaProcessTestContext'
+import { CamundaProcessTestRuntime } from '../../source/runtime/CamundaProcessTestRuntime'
+
+/**
+ * Creates a test context on a fake runtime whose REST client is the given
+ * fake.
+ */
+const createContext = (camunda: object) => {
+	const runtime = {
+		getMonitoringApiAddress: () => 'http://localhost:9600',
+		getRuntimeMode: () => 'MANAGED',
+	} as unknown as CamundaProcessTestRuntime
+	const client = {
+		getCamundaRestClient: () => camunda,
+	} as unknown as Camunda8
+	return new CamundaProcessTestContext(runtime, client)
+}
+
+describe('CamundaProcessTestContext', () => {
+	describe('messages', () => {
+		it('should correlate a message with its variables', async () => {
+			const camunda = {
+				correlateMessage: jest.fn(async () => ({
+					key: '1',
+					tenantId: '<default>',
+					processInstanceKey: '100',
+				})),
+			}
+			const context = createContext(camunda)
+
+			const response = await context.correlateMessage(
+				'payment-received',
+				'order-1',
+				{
+					amount: 42,
+				}
+			)
+
+			expect(response.processInstanceKey).toBe('100')
+			expect(camunda.correlateMessage).toHaveBeenCalledWith({
+				name: 'payment-received',
+				correlationKey: 'order-1',
+				variables: { amount: 42 },
+			})
+		})
+
+		it('should publish a message without time to live by default', async () => {
+			const camunda = {
+				publishMessage: jest.fn(async () => ({
+					key: '2',
+					tenantId: '<default>',
+				})),
+			}
+			const context = createContext(camunda)
+
+			await context.publishMessage('payment-received', 'order-1')
+			await context.publishMessage('payment-received', 'order-2', {
+				variables: { amount: 42 },
+				timeToLive: 60000,
+				messageId: 'payment-2',
+			})
+
+			expect(camunda.publishMessage).toHaveBeenNthCalledWith(1, {
+				name: 'payment-received',
+				correlationKey: 'order-1',
+				variables: {},
+				timeToLive: 0,
+				messageId: undefined,
+			})
+			expect(camunda.publishMessage).toHaveBeenNthCalledWith(2, {
+				name: 'payment-received',
+				correlationKey: 'order-2',
+				variables: { amount: 42 },
+				timeToLive: 60000,
+				messageId: 'payment-2',
+			})
+		})
+	})
+
+	describe('signals', () => {
+		it('should broadcast a signal with its variables', async () => {
+			const camunda = {
+				broadcastSignal: jest.fn(async () => ({
+					key: '3',
+					tenantId: '<default>',
+				})),
+			}
+			const context = createContext(camunda)
+
+			await context.broadcastSignal('stock-updated')
+			await context.broadcastSignal('stock-updated', { sku: 'A1' })
+
+			expect(camunda.broadcastSignal).toHaveBeenNthCalledWith(1, {
+				signalName: 'stock-updated',
+				variables: {},
+			})
+			expect(camunda.broadcastSignal).toHaveBeenNthCalledWith(2, {
+				signalName: 'stock-updated',
+				variables: { sku: 'A1' },
+			})
+		})
+	})
+
+	describe('incidents', () => {
+		it('should resolve an incident and update job retries', async () => {
+			const camunda = {
+				resolveIncident: jest.fn(async () => undefined),
+				updateJob: jest.fn(async () => ''),
+			}
+			const context = createContext(camunda)
+
+			await context.updateJobRetries('500', 3)
+			await context.resolveIncident('600')
+
+			expect(camunda.updateJob).toHaveBeenCalledWith({
+				jobKey: '500',
+				retries: 3,
+			})
+			expect(camunda.resolveIncident).toHaveBeenCalledWith('600')
+		})
+	})
+
+	describe('decisions', () => {
+		it('should evaluate a decision by id or key and remember the evaluation', async () => {
+			const camunda = {
+				evaluateDecision: jest
+					.fn()
+					.mockResolvedValueOnce({
+						decisionDefinitionId: 'loan-approval',
+						decisionEvaluationKey: '800',
+					})
+					// Older runtimes only return the deprecated decisionInstanceKey
+					.mockResolvedValueOnce({
+						decisionDefinitionId: 'loan-approval',
+						decisionInstanceKey: '801',
+					}),
+			}
+			const context = createContext(camunda)
+
+			await context.evaluateDecision({
+				decisionId: 'loan-approval',
+				variables: { amount: 1000 },
+			})
+			await context.evaluateDecision({ decisionKey: '20' })
+
+			expect(camunda.evaluateDecision).toHaveBeenNthCalledWith(1, {
+				decisionDefinitionId: 'loan-approval',
+				variables: { amount: 1000 },
+			})
+			expect(camunda.evaluateDecision).toHaveBeenNthCalledWith(2, {
+				decisionDefinitionKey: '20',
+				variables: {},
+			})
+			expect(context.getEvaluatedDecisionKeys()).toEqual(['800', '801'])
+		})
+	})
+})
@@ -20,7 +20,7 @@ describe('CamundaRuntimeConfigurationMap', () => {
 				expect(config.description).toBeDefined()
 				expect(typeof config.jsonKey).toBe('string')
 				expect(typeof config.envKey).toBe('string')
-				expect(typeof config.defaultValue).toBe('string')
+				expect(['string', 'number']).toContain(typeof config.defaultValue)
 				expect(typeof config.description).toBe('string')
 			})
 		})
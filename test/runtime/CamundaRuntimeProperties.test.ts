@@ -212,6 +212,31 @@ describe('ContainerRuntimePropertiesUtil', () => {
 			expect(properties.runtimeMode).toBe('MANAGED')
 		})
 
+		it('should resolve numeric properties as numbers', () => {
+			process.env.CAMUNDA_OVERALL_COVERAGE_THRESHOLD = '75.5'
+			try {
+				const properties = new ContainerRuntimePropertiesUtil({
+					coverageThreshold: 80,
+				})
+
+				expect(properties.coverageThreshold).toBe(80)
+				expect(properties.overallCoverageThreshold).toBe(75.5)
+			} finally {
+				delete process.env.CAMUNDA_OVERALL_COVERAGE_THRESHOLD
+			}
+		})
+
+		it('should fail for numeric properties that are not numbers', () => {
+			process.env.CAMUNDA_COVERAGE_THRESHOLD = '80%'
+			try {
+				expect(() => new ContainerRuntimePropertiesUtil({})).toThrow(
+					'Invalid value for coverageThreshold: "80%" is not a number'
+				)
+			} finally {
+				delete process.env.CAMUNDA_COVERAGE_THRESHOLD
+			}
+		})
+
 		it('should provide static methods to access configuration', () => {
 			const config = ContainerRuntimePropertiesUtil.getPropertyConfiguration(
 				'camundaDockerImageName'
@@ -0,0 +1,191 @@
+import { CamundaProcessTestContext } from '../../source/runtime/CamundaProcessTestContext'
+import {
+	DecisionTableFixture,
+	describeDecisionTable,
+} from '../../source/runtime/DecisionTableFixture'
+import { DecisionEvaluation } from '../../source/types'
+
+const evaluationOf = (
+	matchedRules: Array<{ ruleIndex: number; outputs: Record<string, string> }>,
+	output?: string
+) =>
+	({
+		decisionDefinitionId: 'discount',
+		evaluatedDecisions: [
+			{
+				decisionDefinitionId: 'discount',
+				output,
+				matchedRules: matchedRules.map((rule) => ({
+					ruleId: `rule-${rule.ruleIndex}`,
+					ruleIndex: String(rule.ruleIndex),
+					evaluatedOutputs: Object.entries(rule.outputs).map(
+						([name, value]) => ({
+							outputId: `output-${name}`,
+							outputName: name,
+							outputValue: value,
+						})
+					),
+				})),
+			},
+		],
+	}) as unknown as DecisionEvaluation
+
+describe('DecisionTableFixture', () => {
+	describe('parseCsv', () => {
+		it('should split inputs and expected outputs and parse values', () => {
+			const rows = DecisionTableFixture.parseCsv(
+				[
+					'customerType,orderTotal,tags,expected.discount,expected.label',
+					'gold,1200,"[""new"",""vip""]",0.1,"Gold, large"',
+					'',
+					'silver,,,null,',
+				].join('\r\n')
+			)
+
+			expect(rows).toEqual([
+				{
+					row: 2,
+					inputs: {
+						customerType: 'gold',
+						orderTotal: 1200,
+						tags: ['new', 'vip'],
+					},
+					expected: { discount: 0.1, label: 'Gold, large' },
+				},
+				{
+					row: 4,
+					inputs: { customerType: 'silver' },
+					expected: { discount: null },
+				},
+			])
+		})
+
+		it('should number rows by the line they start on', () => {
+			const rows = DecisionTableFixture.parseCsv(
+				'note,expected.ok\n"first\nsecond",true\nthird,false\n'
+			)
+
+			expect(rows.map((row) => row.row)).toEqual([2, 4])
+		})
+	})
+
+	describe('parseJson', () => {
+		it('should number the test cases', () => {
+			expect(
+				DecisionTableFixture.parseJson(
+					'[{ "inputs": { "orderTotal": 50 }, "expected": { "discount": 0 } }]'
+				)
+			).toEqual([
+				{ row: 1, inputs: { orderTotal: 50 }, expected: { discount: 0 } },
+			])
+		})
+	})
+
+	describe('findMismatches', () => {
+		const row = {
+			row: 1,
+			inputs: {},
+			expected: { discount: 0.1, label: 'gold' },
+		}
+
+		it('should accept matching outputs', () => {
+			expect(
+				DecisionTableFixture.findMismatches(
+					row,
+					evaluationOf([
+						{ ruleIndex: 2, outputs: { discount: '0.1', label: '"gold"' } },
+					])
+				)
+			).toEqual([])
+		})
+
+		it('should describe each mismatching output', () => {
+			expect(
+				DecisionTableFixture.findMismatches(
+					row,
+					evaluationOf([
+						{ ruleIndex: 3, outputs: { discount: '0.05', label: '"silver"' } },
+					])
+				)
+			).toEqual([
+				'expected discount = 0.1, but was 0.05',
+				'expected label = "gold", but was "silver"',
+			])
+		})
+
+		it('should compare outputs of several matched rules as an array', () => {
+			expect(
+				DecisionTableFixture.findMismatches(
+					{ row: 1, inputs: {}, expected: { discount: [0.05, 0.1] } },
+					evaluationOf([
+						{ ruleIndex: 4, outputs: { discount: '0.1' } },
+						{ ruleIndex: 1, outputs: { discount: '0.05' } },
+					])
+				)
+			).toEqual([])
+		})
+
+		it('should compare the aggregated result of a COLLECT hit policy', () => {
+			// COLLECT with SUM: the rules matched 0.05 and 0.1
+			const evaluation = evaluationOf(
+				[
+					{ ruleIndex: 1, outputs: { discount: '0.05' } },
+					{ ruleIndex: 4, outputs: { discount: '0.1' } },
+				],
+				'0.15'
+			)
+
+			expect(
+				DecisionTableFixture.findMismatches(
+					{ row: 1, inputs: {}, expected: { discount: 0.15 } },
+					evaluation
+				)
+			).toEqual([])
+			expect(
+				DecisionTableFixture.findMismatches(
+					{ row: 1, inputs: {}, expected: { discount: [0.05, 0.1] } },
+					evaluation
+				)
+			).toEqual(['expected discount = [0.05,0.1], but was 0.15'])
+		})
+
+		it('should compare the count of a COLLECT hit policy without matches', () => {
+			expect(
+				DecisionTableFixture.findMismatches(
+					{ row: 1, inputs: {}, expected: { discount: 0 } },
+					evaluationOf([], '0')
+				)
+			).toEqual([])
+		})
+
+		it('should treat outputs of unmatched rules as null', () => {
+			expect(
+				DecisionTableFixture.findMismatches(
+					{ row: 1, inputs: {}, expected: { discount: null } },
+					evaluationOf([])
+				)
+			).toEqual([])
+		})
+	})
+
+	describe('describeDecisionTable', () => {
+		const rows = [
+			{ row: 2, inputs: { orderTotal: 50 }, expected: { discount: 0 } },
+			{ row: 3, inputs: { orderTotal: 500 }, expected: { discount: 0.05 } },
+		]
+		const runDecisionTable = jest.fn(async () => undefined)
+
+		describeDecisionTable(
+			'discount',
+			rows,
+			() => ({ runDecisionTable }) as unknown as CamundaProcessTestContext
+		)
+
+		afterAll(() => {
+			expect(runDecisionTable.mock.calls).toEqual([
+				['discount', [rows[0]]],
+				['discount', [rows[1]]],
+			])
+		})
+	})
+})
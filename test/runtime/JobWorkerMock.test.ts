@@ -0,0 +1,242 @@
+import { Camunda8 } from '@camunda8/sdk'
+
+import { JobWorkerMock } from '../../source/runtime/JobWorkerMock'
+
+/**
+ * Creates a JobWorkerMock on a fake client, and a function that activates
+ * a job the way the SDK job worker would.
+ */
+const createMock = () => {
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	let jobHandler: (job: any) => Promise<unknown> = async () => undefined
+	const worker = { stop: jest.fn() }
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	const createJobWorker = jest.fn((config: any) => {
+		jobHandler = config.jobHandler
+		return worker
+	})
+	const client = {
+		getCamundaRestClient: () => ({ createJobWorker }),
+	} as unknown as Camunda8
+	const mock = new JobWorkerMock(client, 'payment')
+
+	let jobCount = 0
+	const activate = async (variables: Record<string, unknown> = {}) => {
+		// Let the mock start its worker after the configuration statement
+		await Promise.resolve()
+		jobCount++
+		const job = {
+			jobKey: `job-${jobCount}`,
+			type: 'payment',
+			processInstanceKey: `instance-${jobCount}`,
+			elementId: 'charge-card',
+			retries: 3,
+			variables,
+			customHeaders: { endpoint: 'https://payments.example.com' },
+			complete: jest.fn(),
+			fail: jest.fn(),
+			error: jest.fn(),
+		}
+		await jobHandler(job)
+		return job
+	}
+	return { mock, activate, worker, createJobWorker }
+}
+
+describe('JobWorkerMock', () => {
+	describe('invocation recording', () => {
+		it('should record each activated job', async () => {
+			const { mock, activate } = createMock()
+			void mock.thenComplete({ paid: true })
+
+			await activate({ orderId: '42' })
+
+			expect(mock.getInvocations()).toEqual([
+				{
+					jobKey: 'job-1',
+					type: 'payment',
+					processInstanceKey: 'instance-1',
+					elementId: 'charge-card',
+					retries: 3,
+					variables: { orderId: '42' },
+					customHeaders: { endpoint: 'https://payments.example.com' },
+				},
+			])
+			expect(mock.lastJob()?.jobKey).toBe('job-1')
+		})
+
+		it('should assert the number of invocations', async () => {
+			const { mock, activate } = createMock()
+			void mock.thenComplete()
+
+			expect(() => mock.wasInvokedTimes(0)).not.toThrow()
+			await activate()
+			expect(() => mock.wasInvokedTimes(1)).not.toThrow()
+			expect(() => mock.wasInvokedTimes(2)).toThrow(
+				'Expected job worker for type payment to be invoked 2 times, but it was invoked 1 times'
+			)
+		})
+
+		it('should assert the variables of an invocation', async () => {
+			const { mock, activate } = createMock()
+			void mock.thenComplete()
+
+			expect(() => mock.wasInvokedWith({ orderId: '42' })).toThrow(
+				'but received no jobs'
+			)
+			await activate({ orderId: '42', amount: 100 })
+			expect(() =>
+				mock.wasInvokedWith({ orderId: '42', amount: expect.any(Number) })
+			).not.toThrow()
+			expect(() => mock.wasInvokedWith({ orderId: '43' })).toThrow(
+				'Expected job worker for type payment to be invoked with variables {"orderId":"43"}, but received\n  - {"orderId":"42","amount":100}'
+			)
+		})
+	})
+
+	describe('job handling', () => {
+		it('should keep handling jobs with the last behavior', async () => {
+			const { mock, activate, worker } = createMock()
+			const done = mock.thenComplete({ paid: true })
+
+			const first = await activate()
+			await done
+			const second = await activate()
+
+			expect(first.complete).toHaveBeenCalledWith({ paid: true })
+			expect(second.complete).toHaveBeenCalledWith({ paid: true })
+			expect(worker.stop).not.toHaveBeenCalled()
+			expect(mock.isActive()).toBe(true)
+		})
+
+		it('should apply sequential behaviors in order', async () => {
+			const { mock, activate } = createMock()
+			void mock
+				.thenComplete({ attempt: 1 })
+				.thenThrowBpmnError('DECLINED', 'Card declined')
+
+			const first = await activate()
+			const second = await activate()
+			const third = await activate()
+
+			expect(first.complete).toHaveBeenCalledWith({ attempt: 1 })
+			expect(second.error).toHaveBeenCalledWith({
+				errorCode: 'DECLINED',
+				errorMessage: 'Card declined',
+				variables: {},
+			})
+			expect(third.error).toHaveBeenCalled()
+		})
+
+		it('should limit behaviors and stop once all are used up', async () => {
+			const { mock, activate, worker } = createMock()
+			const failed = mock.thenThrowError('Timeout', 1).times(2)
+			const completed = failed.thenComplete().once()
+
+			const first = await activate()
+			await activate()
+			await failed
+			expect(worker.stop).not.toHaveBeenCalled()
+			await activate()
+			await completed
+
+			expect(first.fail).toHaveBeenCalledWith({
+				errorMessage: 'Timeout',
+				retries: 1,
+				retryBackOff: 0,
+			})
+			expect(worker.stop).toHaveBeenCalled()
+			expect(mock.isActive()).toBe(false)
+		})
+
+		it('should stop as soon as the last job is claimed', async () => {
+			const { mock, activate, worker } = createMock()
+			let stoppedDuringHandler = false
+			void mock
+				.withHandler(() => {
+					stoppedDuringHandler = worker.stop.mock.calls.length > 0
+				})
+				.once()
+
+			await activate()
+
+			expect(stoppedDuringHandler).toBe(true)
+		})
+
+		it('should leave jobs activated after stopping untouched', async () => {
+			const { mock, activate } = createMock()
+			void mock.thenComplete().once()
+			await activate()
+
+			const late = await activate()
+
+			expect(late.complete).not.toHaveBeenCalled()
+			expect(late.fail).not.toHaveBeenCalled()
+			expect(late.error).not.toHaveBeenCalled()
+			expect(mock.getInvocations()).toHaveLength(1)
+		})
+
+		it('should reject invalid limits before starting the worker', async () => {
+			const { mock, createJobWorker } = createMock()
+
+			expect(() => mock.once()).toThrow('configure a behavior first')
+			expect(() => mock.thenComplete().times(0)).toThrow(
+				'expected a positive integer'
+			)
+			await Promise.resolve()
+
+			expect(createJobWorker).not.toHaveBeenCalled()
+			expect(mock.isActive()).toBe(false)
+		})
+	})
+
+	describe('waitForInvocations', () => {
+		it('should resolve once the jobs have been handled', async () => {
+			const { mock, activate } = createMock()
+			void mock.thenComplete()
+
+			const waiting = mock.waitForInvocations(2)
+			await activate()
+			await activate()
+
+			await expect(waiting).resolves.toBe(mock)
+		})
+
+		it('should wait until the handler has completed the job', async () => {
+			const { mock, activate } = createMock()
+			let completeJob = () => {}
+			void mock.withHandler(
+				(job, complete) =>
+					new Promise<void>((resolve) => {
+						completeJob = () => {
+							complete.success()
+							resolve()
+						}
+					})
+			)
+			let resolved = false
+			const waiting = mock.waitForInvocations(1).then(() => (resolved = true))
+
+			const activated = activate()
+			await new Promise((resolve) => setTimeout(resolve, 10))
+			expect(mock.getInvocations()).toHaveLength(1)
+			expect(resolved).toBe(false)
+
+			completeJob()
+			const job = await activated
+			await waiting
+			expect(job.complete).toHaveBeenCalled()
+			await expect(mock.waitForInvocations(1)).resolves.toBe(mock)
+		})
+
+		it('should fail after the timeout', async () => {
+			const { mock, activate } = createMock()
+			void mock.thenComplete()
+			await activate()
+
+			await expect(mock.waitForInvocations(3, 10)).rejects.toThrow(
+				'Expected job worker for type payment to handle 3 jobs within 10ms, but it handled 1'
+			)
+		})
+	})
+})